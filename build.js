@@ -1,6 +1,6 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import { mkdir, copyFile, readdir, rename, writeFile } from 'fs/promises';
+import { mkdir, copyFile, cp, readdir, rename, writeFile } from 'fs/promises';
 import { join, extname } from 'path';
 
 const execAsync = promisify(exec);
@@ -88,6 +88,10 @@ async function build() {
     console.log('🔨 Compiling TypeScript...');
     await execAsync('tsc');
 
+    // Data files read at runtime, next to the compiled code that loads them
+    console.log('📦 Copying gazetteer...');
+    await cp('assets/gazetteer', 'dist/assets/gazetteer', { recursive: true });
+
     // Rename .ts files to .js in dist directory
     console.log('🔄 Renaming .ts files to .js...');
     const distFiles = await readdir('dist', { recursive: true });
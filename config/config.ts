@@ -1,5 +1,4 @@
 export const config = {
-  jwtSecret: process.env.JWT_SECRET || "your-secret-key",
   cloudflare: {
     accountId: process.env.CLOUDFLARE_ACCOUNT_ID,
     accessKeyId: process.env.CLOUDFLARE_ACCESS_KEY_ID,
@@ -12,9 +12,38 @@ const envSchema = z.object({
   REFRESH_TOKEN_EXPIRY: z.string().default("2592000"), // 30 days in seconds
   BCRYPT_SALT_ROUNDS: z.string().default("12"),
   CORS_ORIGIN: z.string().default("*"),
+  FRONTEND_URL: z.string().default("http://localhost:3000"),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().default("587"),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASS: z.string().optional(),
+  EMAIL_FROM: z.string().default("Tijara <no-reply@tijara.app>"),
+  MAIL_TRANSPORT: z.enum(["smtp", "json"]).default("smtp"),
+  OIDC_PROVIDERS: z.string().optional(),
+  OIDC_REDIRECT_URI: z.string().optional(),
+  LISTING_LIFETIME_DAYS: z.string().optional(),
+  LISTING_EXPIRY_REMINDER_DAYS: z.string().default("3"),
+  GAZETTEER_DIR: z.string().optional(),
+  ENABLE_EMAIL_VERIFICATION: z
+    .string()
+    .optional()
+    .transform((value) => value === "true"),
+  ENABLE_2FA: z
+    .string()
+    .optional()
+    .transform((value) => value === "true"),
 });
 
-const envParse = envSchema.safeParse(process.env);
+const envParse = envSchema
+  // Production must not start with a mail transport that cannot deliver
+  .refine(
+    (value) =>
+      value.NODE_ENV !== "production" ||
+      value.MAIL_TRANSPORT !== "smtp" ||
+      Boolean(value.SMTP_HOST),
+    { message: "SMTP_HOST is required when MAIL_TRANSPORT is smtp", path: ["SMTP_HOST"] }
+  )
+  .safeParse(process.env);
 
 if (!envParse.success) {
   console.error("❌ Invalid environment variables:", envParse.error.format());
@@ -0,0 +1,37 @@
+// How long listings stay ACTIVE before the expiry job retires them
+import { z } from "zod";
+import { env } from "./env.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_LIFETIME_DAYS: Record<string, number> = {
+  VEHICLES: 60,
+  REAL_ESTATE: 90,
+  default: 30,
+};
+
+const lifetimeSchema = z.record(z.number().int().positive());
+
+const parseLifetimes = (raw: string | undefined): Record<string, number> => {
+  if (!raw) {
+    return DEFAULT_LIFETIME_DAYS;
+  }
+
+  const parsed = lifetimeSchema.safeParse(JSON.parse(raw));
+  if (!parsed.success) {
+    console.error("❌ Invalid LISTING_LIFETIME_DAYS:", parsed.error.format());
+    throw new Error("Invalid LISTING_LIFETIME_DAYS");
+  }
+  return { ...DEFAULT_LIFETIME_DAYS, ...parsed.data };
+};
+
+const lifetimeDays = parseLifetimes(env.LISTING_LIFETIME_DAYS);
+
+export const listingExpiryReminderMs =
+  Math.max(0, Number(env.LISTING_EXPIRY_REMINDER_DAYS) || 0) * DAY_MS;
+
+export const getListingLifetimeMs = (mainCategory: string) =>
+  (lifetimeDays[mainCategory] ?? lifetimeDays.default) * DAY_MS;
+
+export const getListingExpiry = (mainCategory: string, from: Date = new Date()) =>
+  new Date(from.getTime() + getListingLifetimeMs(mainCategory));
@@ -0,0 +1,69 @@
+// Outgoing mail
+import nodemailer from "nodemailer";
+import { env } from "./env.js";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Anything that can deliver a message; nodemailer transporters satisfy this
+export interface MailTransport {
+  sendMail(message: MailMessage & { from: string }): Promise<unknown>;
+}
+
+// ✅ Build the transport described by the environment
+const createDefaultTransport = (): MailTransport => {
+  // Messages carry verification and reset links, so only the envelope is logged
+  if (env.MAIL_TRANSPORT === "json") {
+    return {
+      sendMail: async (message) => {
+        console.log(`📧 Mail not sent (json transport): "${message.subject}" to ${message.to}`);
+        return { accepted: [message.to] };
+      },
+    };
+  }
+
+  if (!env.SMTP_HOST) {
+    throw new Error("SMTP_HOST is not configured");
+  }
+
+  const port = Number(env.SMTP_PORT);
+  return nodemailer.createTransport({
+    host: env.SMTP_HOST,
+    port,
+    secure: port === 465,
+    auth: env.SMTP_USER
+      ? { user: env.SMTP_USER, pass: env.SMTP_PASS }
+      : undefined,
+  });
+};
+
+let transport: MailTransport | null = null;
+
+// ✅ Swap the transport, e.g. for a capturing one in tests; null restores the default
+export const setMailTransport = (next: MailTransport | null) => {
+  transport = next;
+};
+
+// ✅ In-memory transport that records every message instead of sending it
+export const createCaptureTransport = () => {
+  const messages: Array<MailMessage & { from: string }> = [];
+  return {
+    messages,
+    sendMail: async (message: MailMessage & { from: string }) => {
+      messages.push(message);
+      return { accepted: [message.to] };
+    },
+  };
+};
+
+// ✅ Send a message through the active transport
+export const sendMail = async (message: MailMessage) => {
+  if (!transport) {
+    transport = createDefaultTransport();
+  }
+  return transport.sendMail({ from: env.EMAIL_FROM, ...message });
+};
@@ -0,0 +1,31 @@
+// OpenID Connect providers for social login
+import { z } from "zod";
+import { env } from "./env.js";
+
+const providerSchema = z.object({
+  name: z.string().regex(/^[a-z0-9-]+$/, "Provider names are lowercase slugs"),
+  issuer: z.string().url(),
+  clientId: z.string(),
+  clientSecret: z.string().optional(),
+  scopes: z.array(z.string()).default(["openid", "email", "profile"]),
+});
+
+export type OidcProviderConfig = z.infer<typeof providerSchema>;
+
+const parseProviders = (raw: string | undefined): OidcProviderConfig[] => {
+  if (!raw) {
+    return [];
+  }
+
+  const parsed = z.array(providerSchema).safeParse(JSON.parse(raw));
+  if (!parsed.success) {
+    console.error("❌ Invalid OIDC_PROVIDERS:", parsed.error.format());
+    throw new Error("Invalid OIDC_PROVIDERS");
+  }
+  return parsed.data;
+};
+
+export const oidcProviders = parseProviders(env.OIDC_PROVIDERS);
+
+export const oidcRedirectUri =
+  env.OIDC_REDIRECT_URI ?? `${env.FRONTEND_URL}/auth/callback`;
@@ -0,0 +1,17 @@
+import { UserRole } from "@prisma/client";
+import { Permission } from "../types/enums.js";
+
+// What each role may do. Roles only grant permissions; code checks
+// permissions, never role names.
+export const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  USER: [],
+  SUPPORT: [Permission.CONVERSATIONS_READ_REPORTED],
+  MODERATOR: [
+    Permission.LISTINGS_HIDE,
+    Permission.CONVERSATIONS_READ_REPORTED,
+  ],
+  ADMIN: Object.values(Permission),
+};
+
+export const hasPermission = (role: UserRole, permission: Permission) =>
+  rolePermissions[role]?.includes(permission) ?? false;
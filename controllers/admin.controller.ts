@@ -0,0 +1,410 @@
+import { Response } from "express";
+import { UserRole } from "@prisma/client";
+import prisma from "../src/lib/prismaClient.js";
+import { AuthRequest } from "../types/index.js";
+import { recordAuditEvent } from "../utils/audit.utils.js";
+import {
+  scheduleAccountDeletion,
+  purgeUserAccount,
+} from "../utils/accountDeletion.utils.js";
+
+const isUserRole = (role: unknown): role is UserRole =>
+  typeof role === "string" &&
+  Object.values(UserRole).includes(role as UserRole);
+
+// Assign a role to a user
+export const updateUserRole = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { role } = req.body;
+
+    if (!isUserRole(role)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: `Role must be one of ${Object.values(UserRole).join(", ")}`,
+        },
+      });
+    }
+
+    // Keeps admins from locking themselves out
+    if (id === req.user.id) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "BAD_REQUEST",
+          message: "You cannot change your own role",
+        },
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, role: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "User not found",
+        },
+      });
+    }
+
+    if (user.role === role) {
+      return res.json({
+        success: true,
+        data: { user },
+      });
+    }
+
+    const updatedUser = await prisma.$transaction(async (tx) => {
+      const updated = await tx.user.update({
+        where: { id },
+        data: { role },
+        select: { id: true, email: true, username: true, role: true },
+      });
+
+      await recordAuditEvent(
+        {
+          actorId: req.user.id,
+          action: "USER_ROLE_CHANGED",
+          targetType: "USER",
+          targetId: id,
+          metadata: { from: user.role, to: role },
+        },
+        tx
+      );
+
+      return updated;
+    });
+
+    res.json({
+      success: true,
+      data: { user: updatedUser },
+    });
+  } catch (error) {
+    console.error("Update user role error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to update user role",
+      },
+    });
+  }
+};
+
+// Delete a user right away, skipping the grace period
+export const deleteUserAccount = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (id === req.user.id) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "BAD_REQUEST",
+          message: "Use account deletion to delete your own account",
+        },
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, email: true, username: true, role: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "User not found",
+        },
+      });
+    }
+
+    // Audit first: the entry must survive even if the purge fails halfway
+    await recordAuditEvent({
+      actorId: req.user.id,
+      action: "USER_DELETED",
+      targetType: "USER",
+      targetId: id,
+      metadata: { email: user.email, username: user.username, role: user.role },
+    });
+
+    await scheduleAccountDeletion(id, 0);
+    await purgeUserAccount(id);
+
+    res.json({
+      success: true,
+      data: { message: "User deleted" },
+    });
+  } catch (error) {
+    console.error("Delete user error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to delete user",
+      },
+    });
+  }
+};
+
+// Hide or unhide a listing from public views
+export const setListingVisibility = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { hidden, reason } = req.body;
+
+    if (typeof hidden !== "boolean") {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "hidden must be a boolean",
+        },
+      });
+    }
+
+    const listing = await prisma.listing.findUnique({
+      where: { id },
+      select: { id: true, hiddenAt: true },
+    });
+
+    if (!listing) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Listing not found",
+        },
+      });
+    }
+
+    const updatedListing = await prisma.$transaction(async (tx) => {
+      const updated = await tx.listing.update({
+        where: { id },
+        data: { hiddenAt: hidden ? listing.hiddenAt ?? new Date() : null },
+        select: { id: true, hiddenAt: true },
+      });
+
+      await recordAuditEvent(
+        {
+          actorId: req.user.id,
+          action: hidden ? "LISTING_HIDDEN" : "LISTING_UNHIDDEN",
+          targetType: "LISTING",
+          targetId: id,
+          metadata: reason ? { reason: String(reason) } : undefined,
+        },
+        tx
+      );
+
+      return updated;
+    });
+
+    res.json({
+      success: true,
+      data: { listing: updatedListing },
+    });
+  } catch (error) {
+    console.error("Set listing visibility error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to update listing visibility",
+      },
+    });
+  }
+};
+
+// List open conversation reports
+export const getReports = async (req: AuthRequest, res: Response) => {
+  try {
+    const reports = await prisma.conversationReport.findMany({
+      where: { resolvedAt: null },
+      include: {
+        reporter: { select: { id: true, username: true } },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    res.json({
+      success: true,
+      data: { reports },
+    });
+  } catch (error) {
+    console.error("Get reports error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to get reports",
+      },
+    });
+  }
+};
+
+// Read the conversation behind a report; every read is audited
+export const getReportedConversation = async (
+  req: AuthRequest,
+  res: Response
+) => {
+  try {
+    const report = await prisma.conversationReport.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Report not found",
+        },
+      });
+    }
+
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: report.conversationId },
+      include: {
+        participants: { select: { id: true, username: true } },
+        messages: { orderBy: { createdAt: "asc" } },
+      },
+    });
+
+    await recordAuditEvent({
+      actorId: req.user.id,
+      action: "REPORTED_CONVERSATION_READ",
+      targetType: "CONVERSATION",
+      targetId: report.conversationId,
+      metadata: { reportId: report.id },
+    });
+
+    res.json({
+      success: true,
+      data: { report, conversation },
+    });
+  } catch (error) {
+    console.error("Get reported conversation error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to get reported conversation",
+      },
+    });
+  }
+};
+
+// Mark a report as handled
+export const resolveReport = async (req: AuthRequest, res: Response) => {
+  try {
+    const report = await prisma.conversationReport.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Report not found",
+        },
+      });
+    }
+
+    const resolved = await prisma.$transaction(async (tx) => {
+      const updated = await tx.conversationReport.update({
+        where: { id: report.id },
+        data: { resolvedAt: report.resolvedAt ?? new Date() },
+      });
+
+      await recordAuditEvent(
+        {
+          actorId: req.user.id,
+          action: "REPORT_RESOLVED",
+          targetType: "CONVERSATION",
+          targetId: report.conversationId,
+          metadata: { reportId: report.id },
+        },
+        tx
+      );
+
+      return updated;
+    });
+
+    res.json({
+      success: true,
+      data: { report: resolved },
+    });
+  } catch (error) {
+    console.error("Resolve report error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to resolve report",
+      },
+    });
+  }
+};
+
+// Browse the audit trail, newest first
+export const getAuditLog = async (req: AuthRequest, res: Response) => {
+  try {
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.max(
+      1,
+      Math.min(100, parseInt(req.query.limit as string) || 50),
+    );
+    const { targetType, targetId, actorId } = req.query as {
+      targetType?: string;
+      targetId?: string;
+      actorId?: string;
+    };
+
+    const where = {
+      ...(targetType && { targetType }),
+      ...(targetId && { targetId }),
+      ...(actorId && { actorId }),
+    };
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        include: { actor: { select: { id: true, username: true } } },
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        items: entries,
+        total,
+        page,
+        limit,
+        hasMore: total > page * limit,
+      },
+    });
+  } catch (error) {
+    console.error("Get audit log error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to get audit log",
+      },
+    });
+  }
+};
@@ -1,34 +1,56 @@
 import { Request, Response } from "express";
-import jwt, { SignOptions } from "jsonwebtoken";
 import bcrypt from "bcryptjs";
 import prisma from "../src/lib/prismaClient.js";
+import { Prisma } from "@prisma/client";
+import { serializeOwnUser } from "../utils/user.utils.js";
+import jwt from "jsonwebtoken";
 import { validationResult } from "express-validator";
 import { env } from "../config/env.js";
-
-interface AuthTokens {
-  accessToken: string;
-  refreshToken: string;
-}
-
-const generateTokens = (userId: string): AuthTokens => {
-  const jwtSecret = env.JWT_SECRET;
-  if (!jwtSecret) {
-    throw new Error("JWT_SECRET is not configured");
-  }
-
-  const accessTokenOptions: SignOptions = {
-    expiresIn: "15m",
-  };
-
-  const refreshTokenOptions: SignOptions = {
-    expiresIn: "7d",
-  };
-
-  const accessToken = jwt.sign({ id: userId }, jwtSecret, accessTokenOptions);
-  const refreshToken = jwt.sign({ id: userId }, jwtSecret, refreshTokenOptions);
-
-  return { accessToken, refreshToken };
-};
+import {
+  generateTokens,
+  getSessionMetadata,
+  rotateRefreshToken,
+  findSessionIdByRefreshToken,
+  revokeSession,
+  revokeAllSessions,
+  RefreshTokenError,
+  verifyPurposeToken,
+  generateOpaqueToken,
+  hashToken,
+  createTwoFactorChallenge,
+} from "../utils/token.utils.js";
+import {
+  sendVerificationEmail,
+  sendPasswordResetEmail,
+  EmailVerificationPayload,
+} from "../utils/email.utils.js";
+import {
+  getLockoutRemaining,
+  recordLockedLogin,
+  recordFailedLogin,
+  resetFailedLogins,
+  recordSuccessfulLogin,
+  sendAccountLocked,
+  getUnknownLoginLockoutRemaining,
+  recordFailedUnknownLogin,
+} from "../utils/loginSecurity.utils.js";
+import {
+  normalizeUsername,
+  isUsernameAvailable,
+  suggestUsernames,
+  generateAvailableUsername,
+} from "../utils/username.utils.js";
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+const sendInvalidCredentials = (res: Response) =>
+  res.status(401).json({
+    success: false,
+    error: {
+      code: "INVALID_CREDENTIALS",
+      message: "Invalid credentials"
+    }
+  });
 
 // Register a New User
 export const register = async (req: Request, res: Response) => {
@@ -45,7 +67,7 @@ export const register = async (req: Request, res: Response) => {
       });
     }
 
-    const { email, password, name } = req.body;
+    const { email, password, name, username } = req.body;
 
     // Check if user exists
     const existingUser = await prisma.user.findUnique({
@@ -62,6 +84,19 @@ export const register = async (req: Request, res: Response) => {
       });
     }
 
+    // A chosen username must be free; otherwise pick one from the email prefix
+    const requestedUsername = username ? normalizeUsername(username) : null;
+    if (requestedUsername && !(await isUsernameAvailable(requestedUsername))) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "USERNAME_TAKEN",
+          message: "This username is already taken",
+          suggestions: await suggestUsernames(requestedUsername)
+        }
+      });
+    }
+
     // Hash password
     const salt = await bcrypt.genSalt(10);
     const hashedPassword = await bcrypt.hash(password, salt);
@@ -70,7 +105,8 @@ export const register = async (req: Request, res: Response) => {
     const user = await prisma.user.create({
       data: {
         email: email.toLowerCase(),
-        username: email.split('@')[0], // Use email prefix as default username
+        username:
+          requestedUsername ?? (await generateAvailableUsername(email.split("@")[0])),
         password: hashedPassword,
         name,
         role: 'USER'
@@ -78,14 +114,23 @@ export const register = async (req: Request, res: Response) => {
       select: {
         id: true,
         email: true,
+        emailVerified: true,
         name: true,
+        username: true,
         role: true,
         createdAt: true
       }
     });
 
+    if (env.ENABLE_EMAIL_VERIFICATION) {
+      // A mail failure must not fail registration; the user can ask for a resend
+      await sendVerificationEmail(user).catch((error) =>
+        console.error("Verification email error:", error)
+      );
+    }
+
     // Generate tokens
-    const tokens = generateTokens(user.id);
+    const tokens = await generateTokens(user.id, getSessionMetadata(req));
 
     return res.status(201).json({
       success: true,
@@ -95,6 +140,19 @@ export const register = async (req: Request, res: Response) => {
       }
     });
   } catch (error) {
+    // Lost a race for the same email or username
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: "USER_EXISTS",
+          message: "Email or username is already taken"
+        }
+      });
+    }
     console.error("Registration error:", error);
     return res.status(500).json({
       success: false,
@@ -127,38 +185,62 @@ export const login = async (req: Request, res: Response) => {
       where: { email: email.toLowerCase() }
     });
 
+    // Unknown emails run into the same lockout as accounts do, so neither
+    // the status nor the error code tells whether an account exists
     if (!user) {
-      return res.status(401).json({
-        success: false,
-        error: {
-          code: "INVALID_CREDENTIALS",
-          message: "Invalid credentials"
-        }
-      });
+      const lockoutRemaining = await getUnknownLoginLockoutRemaining(email);
+      if (lockoutRemaining > 0) {
+        return sendAccountLocked(res, lockoutRemaining);
+      }
+      const lockedUntil = await recordFailedUnknownLogin(email);
+      if (lockedUntil) {
+        return sendAccountLocked(res, lockedUntil.getTime() - Date.now());
+      }
+      return sendInvalidCredentials(res);
     }
 
-    // Check password
-    const isMatch = await bcrypt.compare(password, user.password);
+    const metadata = getSessionMetadata(req);
+
+    // A locked account does not check passwords at all until the lock expires
+    const lockoutRemaining = getLockoutRemaining(user);
+    if (lockoutRemaining > 0) {
+      await recordLockedLogin(user.id, metadata);
+      return sendAccountLocked(res, lockoutRemaining);
+    }
+
+    // Check password (accounts created through a provider have none)
+    const isMatch =
+      user.password !== null && (await bcrypt.compare(password, user.password));
     if (!isMatch) {
-      return res.status(401).json({
-        success: false,
-        error: {
-          code: "INVALID_CREDENTIALS",
-          message: "Invalid credentials"
+      const lockedUntil = await recordFailedLogin(user.id, metadata);
+      if (lockedUntil) {
+        return sendAccountLocked(res, lockedUntil.getTime() - Date.now());
+      }
+      return sendInvalidCredentials(res);
+    }
+
+    // With 2FA on, the password only earns a challenge for the second step;
+    // failures are only cleared once the code is in too
+    if (env.ENABLE_2FA && user.twoFactorEnabled) {
+      return res.json({
+        success: true,
+        data: {
+          twoFactorRequired: true,
+          challengeToken: await createTwoFactorChallenge(user.id)
         }
       });
     }
 
-    // Generate tokens
-    const tokens = generateTokens(user.id);
+    await resetFailedLogins(user.id);
 
-    // Return user data (excluding password)
-    const { password: _, ...userData } = user;
+    // Generate tokens
+    const tokens = await generateTokens(user.id, metadata);
+    await recordSuccessfulLogin(user.id, metadata, "PASSWORD");
 
     return res.json({
       success: true,
       data: {
-        user: userData,
+        user: serializeOwnUser(user),
         tokens
       }
     });
@@ -189,16 +271,12 @@ export const refreshToken = async (req: Request, res: Response) => {
       });
     }
 
-    const jwtSecret = env.JWT_SECRET;
-    if (!jwtSecret) {
-      throw new Error("JWT_SECRET is not configured");
-    }
-
     try {
-      const decoded = jwt.verify(refreshToken, jwtSecret) as { id: string };
-      
+      // Rotate the token: the presented one is spent and a new pair is issued
+      const { userId, tokens } = await rotateRefreshToken(refreshToken);
+
       const user = await prisma.user.findUnique({
-        where: { id: decoded.id },
+        where: { id: userId },
         select: {
           id: true,
           email: true,
@@ -217,9 +295,6 @@ export const refreshToken = async (req: Request, res: Response) => {
         });
       }
 
-      // Generate new tokens
-      const tokens = generateTokens(user.id);
-
       return res.json({
         success: true,
         data: {
@@ -228,23 +303,16 @@ export const refreshToken = async (req: Request, res: Response) => {
         }
       });
     } catch (error) {
-      if (error instanceof jwt.TokenExpiredError) {
+      if (error instanceof RefreshTokenError) {
         return res.status(401).json({
           success: false,
           error: {
-            code: "TOKEN_EXPIRED",
-            message: "Refresh token has expired"
+            code: error.code,
+            message: error.message
           }
         });
       }
-
-      return res.status(401).json({
-        success: false,
-        error: {
-          code: "INVALID_TOKEN",
-          message: "Invalid refresh token"
-        }
-      });
+      throw error;
     }
   } catch (error) {
     console.error("Token refresh error:", error);
@@ -258,11 +326,19 @@ export const refreshToken = async (req: Request, res: Response) => {
   }
 };
 
-// Logout User
+// Logout User (revokes the current session)
 export const logout = async (req: Request, res: Response) => {
   try {
-    // Since we're using JWT, we don't need to do anything server-side
-    // The client should remove the tokens
+    const { refreshToken } = req.body ?? {};
+
+    const sessionId =
+      req.user?.sessionId ||
+      (refreshToken ? await findSessionIdByRefreshToken(refreshToken) : null);
+
+    if (sessionId) {
+      await revokeSession(sessionId, "LOGOUT");
+    }
+
     return res.json({
       success: true,
       data: {
@@ -281,6 +357,40 @@ export const logout = async (req: Request, res: Response) => {
   }
 };
 
+// Logout User from every device
+export const logoutAll = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Not authenticated"
+        }
+      });
+    }
+
+    const { count } = await revokeAllSessions(req.user.id, "LOGOUT_ALL");
+
+    return res.json({
+      success: true,
+      data: {
+        message: "Logged out from all devices",
+        revokedSessions: count
+      }
+    });
+  } catch (error) {
+    console.error("Logout all error:", error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to logout from all devices"
+      }
+    });
+  }
+};
+
 // Get Authenticated User Info
 export const getMe = async (req: Request, res: Response) => {
   try {
@@ -299,8 +409,10 @@ export const getMe = async (req: Request, res: Response) => {
       select: {
         id: true,
         email: true,
+        emailVerified: true,
         name: true,
         role: true,
+        twoFactorEnabled: true,
         createdAt: true,
         updatedAt: true
       }
@@ -331,3 +443,258 @@ export const getMe = async (req: Request, res: Response) => {
     });
   }
 };
+
+// Verify Email Address
+export const verifyEmail = async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "NO_TOKEN",
+          message: "Verification token is required"
+        }
+      });
+    }
+
+    let payload: EmailVerificationPayload;
+    try {
+      payload = verifyPurposeToken<EmailVerificationPayload>(
+        "email-verification",
+        token
+      );
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: error instanceof jwt.TokenExpiredError ? "TOKEN_EXPIRED" : "INVALID_TOKEN",
+          message: error instanceof jwt.TokenExpiredError
+            ? "Verification link has expired"
+            : "Invalid verification link"
+        }
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.id },
+      select: { id: true, email: true, emailVerified: true }
+    });
+
+    // The address must still be the one the link was sent to
+    if (!user || user.email !== payload.email) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "INVALID_TOKEN",
+          message: "Invalid verification link"
+        }
+      });
+    }
+
+    if (!user.emailVerified) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { emailVerified: true, emailVerifiedAt: new Date() }
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        message: "Email verified successfully"
+      }
+    });
+  } catch (error) {
+    console.error("Verify email error:", error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to verify email"
+      }
+    });
+  }
+};
+
+// Resend Verification Email
+export const resendVerificationEmail = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Not authenticated"
+        }
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { id: true, email: true, emailVerified: true }
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "User not found"
+        }
+      });
+    }
+
+    if (user.emailVerified) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "ALREADY_VERIFIED",
+          message: "Email is already verified"
+        }
+      });
+    }
+
+    await sendVerificationEmail(user);
+
+    return res.json({
+      success: true,
+      data: {
+        message: "Verification email sent"
+      }
+    });
+  } catch (error) {
+    console.error("Resend verification email error:", error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to send verification email"
+      }
+    });
+  }
+};
+
+// Request Password Reset
+export const requestPasswordReset = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.toLowerCase() },
+      select: { id: true, email: true }
+    });
+
+    if (user) {
+      const token = generateOpaqueToken();
+
+      await prisma.$transaction([
+        // Only the most recent link stays usable
+        prisma.passwordResetToken.deleteMany({
+          where: { userId: user.id, usedAt: null }
+        }),
+        prisma.passwordResetToken.create({
+          data: {
+            userId: user.id,
+            tokenHash: hashToken(token),
+            expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS)
+          }
+        })
+      ]);
+
+      // Not awaited so response time does not depend on whether the email exists
+      sendPasswordResetEmail(user.email, token).catch((error) =>
+        console.error("Password reset email error:", error)
+      );
+    }
+
+    // Same response either way so the endpoint cannot be used to probe accounts
+    return res.json({
+      success: true,
+      data: {
+        message: "If an account exists for this email, a reset link has been sent"
+      }
+    });
+  } catch (error) {
+    console.error("Request password reset error:", error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to request password reset"
+      }
+    });
+  }
+};
+
+// Reset Password
+export const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body;
+
+    const resetToken = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: hashToken(token) }
+    });
+
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "INVALID_TOKEN",
+          message: "Reset link is invalid or has expired"
+        }
+      });
+    }
+
+    const salt = await bcrypt.genSalt(10);
+    const hashedPassword = await bcrypt.hash(password, salt);
+
+    const reset = await prisma.$transaction(async (tx) => {
+      // Claim the token atomically so it can only ever be used once
+      const claimed = await tx.passwordResetToken.updateMany({
+        where: { id: resetToken.id, usedAt: null },
+        data: { usedAt: new Date() }
+      });
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      await tx.user.update({
+        where: { id: resetToken.userId },
+        // Proving control of the inbox also lifts any lockout
+        data: { password: hashedPassword, failedLoginAttempts: 0, lockedUntil: null }
+      });
+      return true;
+    });
+
+    if (!reset) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "INVALID_TOKEN",
+          message: "Reset link is invalid or has expired"
+        }
+      });
+    }
+
+    // Whoever held the old password must not stay signed in
+    await revokeAllSessions(resetToken.userId, "PASSWORD_RESET");
+
+    return res.json({
+      success: true,
+      data: {
+        message: "Password has been reset successfully"
+      }
+    });
+  } catch (error) {
+    console.error("Reset password error:", error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to reset password"
+      }
+    });
+  }
+};
@@ -1,6 +1,15 @@
 import { Response } from "express";
+import { Prisma } from "@prisma/client";
 import prisma from "../src/lib/prismaClient.js";
 import { AuthRequest } from "../types/index.js";
+import {
+  CursorSort,
+  cursorOrderBy,
+  cursorPaginate,
+  cursorWhere,
+  decodeCursor,
+  takePage,
+} from "../utils/pagination.utils.js";
 
 export const sendMessage = async (req: AuthRequest, res: Response) => {
   try {
@@ -119,35 +128,48 @@ export const getConversations = async (req: AuthRequest, res: Response) => {
   }
 };
 
+// Newest first by (createdAt, id); each page is returned oldest first
+const messageSort: CursorSort<"createdAt"> = { field: "createdAt", direction: "desc" };
+
 export const getMessages = async (req: AuthRequest, res: Response) => {
   try {
     const { conversationId } = req.params;
-    const { page = "1", limit = "20" } = req.query as {
-      page?: string;
-      limit?: string;
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.max(1, Math.min(50, parseInt(req.query.limit as string) || 20));
+    const cursor = typeof req.query.cursor === "string" ? req.query.cursor : undefined;
+
+    const after = cursor ? decodeCursor(cursor) : null;
+    if (cursor && !after) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid cursor",
+      });
+    }
+
+    const where: Prisma.MessageWhereInput = {
+      conversationId,
+      OR: [{ senderId: req.user.id }, { recipientId: req.user.id }],
     };
-    const skip = (Number(page) - 1) * Number(limit);
 
-    const messages = await prisma.message.findMany({
-      where: {
-        conversationId,
-        OR: [{ senderId: req.user.id }, { recipientId: req.user.id }],
-      },
-      include: {
-        sender: {
-          select: {
-            id: true,
-            username: true,
-            profilePicture: true,
+    const [rows, total] = await Promise.all([
+      prisma.message.findMany({
+        where: after ? { AND: [where, cursorWhere(messageSort, after)] } : where,
+        include: {
+          sender: {
+            select: {
+              id: true,
+              username: true,
+              profilePicture: true,
+            },
           },
         },
-      },
-      orderBy: {
-        createdAt: "desc",
-      },
-      skip,
-      take: Number(limit),
-    });
+        orderBy: cursorOrderBy(messageSort),
+        skip: after ? undefined : (page - 1) * limit,
+        take: limit + 1,
+      }),
+      prisma.message.count({ where }),
+    ]);
+    const messages = takePage(rows, limit, messageSort);
 
     // Mark messages as read
     await prisma.message.updateMany({
@@ -163,9 +185,12 @@ export const getMessages = async (req: AuthRequest, res: Response) => {
 
     res.json({
       success: true,
-      messages: messages.reverse(),
-      page: Number(page),
-      limit: Number(limit),
+      data: cursorPaginate(
+        { ...messages, items: messages.items.reverse() },
+        total,
+        limit,
+        after ? undefined : page
+      ),
     });
   } catch (error) {
     console.error("Get messages error:", error);
@@ -214,3 +239,50 @@ export const deleteMessage = async (req: AuthRequest, res: Response) => {
     });
   }
 };
+
+export const reportConversation = async (req: AuthRequest, res: Response) => {
+  try {
+    const { conversationId } = req.params;
+    const reason = typeof req.body.reason === "string" ? req.body.reason.trim() : "";
+
+    if (!reason) {
+      return res.status(400).json({
+        success: false,
+        error: "A reason is required",
+      });
+    }
+
+    const conversation = await prisma.conversation.findFirst({
+      where: {
+        id: conversationId,
+        participants: { some: { id: req.user.id } },
+      },
+    });
+
+    if (!conversation) {
+      return res.status(404).json({
+        success: false,
+        error: "Conversation not found",
+      });
+    }
+
+    const report = await prisma.conversationReport.create({
+      data: {
+        conversationId,
+        reporterId: req.user.id,
+        reason: reason.slice(0, 1000),
+      },
+    });
+
+    res.status(201).json({
+      success: true,
+      report,
+    });
+  } catch (error) {
+    console.error("Report conversation error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to report conversation",
+    });
+  }
+};
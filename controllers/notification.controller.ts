@@ -3,6 +3,14 @@ import { Prisma, NotificationType } from "@prisma/client";
 import prisma from "../src/lib/prismaClient.js";
 import { Server } from "socket.io";
 import { AuthRequest } from "../types/index.js";
+import {
+  CursorSort,
+  cursorOrderBy,
+  cursorPaginate,
+  cursorWhere,
+  decodeCursor,
+  takePage,
+} from "../utils/pagination.utils.js";
 
 const validateNotificationType = (type: string): type is NotificationType => {
   return Object.values(NotificationType).includes(type as NotificationType);
@@ -39,6 +47,8 @@ export const createNotification = async (
   }
 };
 
+const notificationSort: CursorSort<"createdAt"> = { field: "createdAt", direction: "desc" };
+
 export const getNotifications = async (req: AuthRequest, res: Response) => {
   try {
     const page = Math.max(1, parseInt(req.query.page as string) || 1);
@@ -46,34 +56,34 @@ export const getNotifications = async (req: AuthRequest, res: Response) => {
       1,
       Math.min(50, parseInt(req.query.limit as string) || 20),
     );
-    const skip = (page - 1) * limit;
+    const cursor = typeof req.query.cursor === "string" ? req.query.cursor : undefined;
 
-    const notifications = await prisma.notification.findMany({
-      where: {
-        userId: req.user.id,
-      },
-      orderBy: {
-        createdAt: "desc",
-      },
-      skip,
-      take: limit,
-    });
+    const after = cursor ? decodeCursor(cursor) : null;
+    if (cursor && !after) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid cursor",
+      });
+    }
 
-    const total = await prisma.notification.count({
-      where: {
-        userId: req.user.id,
-      },
-    });
+    const where: Prisma.NotificationWhereInput = {
+      userId: req.user.id,
+    };
+
+    const [rows, total] = await Promise.all([
+      prisma.notification.findMany({
+        where: after ? { AND: [where, cursorWhere(notificationSort, after)] } : where,
+        orderBy: cursorOrderBy(notificationSort),
+        skip: after ? undefined : (page - 1) * limit,
+        take: limit + 1,
+      }),
+      prisma.notification.count({ where }),
+    ]);
+    const notifications = takePage(rows, limit, notificationSort);
 
     res.json({
       success: true,
-      notifications,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit),
-      },
+      data: cursorPaginate(notifications, total, limit, after ? undefined : page),
     });
   } catch (error) {
     console.error("Get notifications error:", error);
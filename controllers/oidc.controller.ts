@@ -0,0 +1,264 @@
+import { Request, Response } from "express";
+import prisma from "../src/lib/prismaClient.js";
+import { serializeOwnUser } from "../utils/user.utils.js";
+import { recordSuccessfulLogin } from "../utils/loginSecurity.utils.js";
+import { env } from "../config/env.js";
+import {
+  generateTokens,
+  getSessionMetadata,
+  createTwoFactorChallenge,
+} from "../utils/token.utils.js";
+import { OidcError } from "../utils/oidc.utils.js";
+import {
+  OidcLoginError,
+  identitySelect,
+  oidcService,
+} from "../services/oidc.service.js";
+
+const errorStatus: Record<OidcLoginError["code"], number> = {
+  NOT_FOUND: 404,
+  INVALID_STATE: 400,
+  IDENTITY_CONFLICT: 409,
+};
+
+const sendLoginError = (res: Response, error: OidcLoginError) =>
+  res.status(errorStatus[error.code]).json({
+    success: false,
+    error: {
+      code: error.code,
+      message: error.message,
+    },
+  });
+
+// The provider could not be reached before the browser was sent there
+const sendStartError = (res: Response, error: unknown) => {
+  if (error instanceof OidcLoginError) {
+    return sendLoginError(res, error);
+  }
+  console.error("OIDC start error:", error);
+  return res.status(error instanceof OidcError ? 502 : 500).json({
+    success: false,
+    error: {
+      code: error instanceof OidcError ? error.code : "SERVER_ERROR",
+      message: "Failed to start sign-in with the identity provider",
+    },
+  });
+};
+
+// The code from the redirect could not be traded for a verified identity
+const sendCallbackError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof OidcLoginError) {
+    return sendLoginError(res, error);
+  }
+  if (error instanceof OidcError) {
+    console.error("OIDC provider error:", error.message);
+    return res.status(401).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: "Sign-in with the identity provider failed",
+      },
+    });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({
+    success: false,
+    error: {
+      code: "SERVER_ERROR",
+      message: fallback,
+    },
+  });
+};
+
+const sendMissingCallbackFields = (res: Response) =>
+  res.status(400).json({
+    success: false,
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "Code and state are required",
+    },
+  });
+
+// List Configured Providers
+export const getOidcProviders = (_req: Request, res: Response) => {
+  return res.json({
+    success: true,
+    data: {
+      providers: oidcService.providerNames,
+    },
+  });
+};
+
+// Start Login: returns the provider URL to send the browser to
+export const startOidcLogin = async (req: Request, res: Response) => {
+  try {
+    const { authorizationUrl, state } = await oidcService.start(req.params.provider);
+
+    return res.json({
+      success: true,
+      data: { authorizationUrl, state },
+    });
+  } catch (error) {
+    return sendStartError(res, error);
+  }
+};
+
+// Finish Login: exchange the code from the redirect for our own tokens
+export const completeOidcLogin = async (req: Request, res: Response) => {
+  try {
+    const { code, state } = req.body;
+
+    if (!code || !state) {
+      return sendMissingCallbackFields(res);
+    }
+
+    const user = await oidcService.completeLogin(String(code), String(state));
+
+    // The provider stands in for the password; 2FA still applies
+    if (env.ENABLE_2FA && user.twoFactorEnabled) {
+      return res.json({
+        success: true,
+        data: {
+          twoFactorRequired: true,
+          challengeToken: await createTwoFactorChallenge(user.id),
+        },
+      });
+    }
+
+    const metadata = getSessionMetadata(req);
+    const tokens = await generateTokens(user.id, metadata);
+    await recordSuccessfulLogin(user.id, metadata, "OIDC");
+
+    return res.json({
+      success: true,
+      data: {
+        user: serializeOwnUser(user),
+        tokens,
+      },
+    });
+  } catch (error) {
+    return sendCallbackError(res, error, "Failed to complete sign-in");
+  }
+};
+
+// Start Linking: like login, but the result is attached to the current user
+export const startOidcLink = async (req: Request, res: Response) => {
+  try {
+    const { authorizationUrl, state } = await oidcService.start(
+      req.params.provider,
+      req.user!.id
+    );
+
+    return res.json({
+      success: true,
+      data: { authorizationUrl, state },
+    });
+  } catch (error) {
+    return sendStartError(res, error);
+  }
+};
+
+// Finish Linking: only the user who started the link can complete it
+export const completeOidcLink = async (req: Request, res: Response) => {
+  try {
+    const { code, state } = req.body;
+
+    if (!code || !state) {
+      return sendMissingCallbackFields(res);
+    }
+
+    const identity = await oidcService.completeLink(
+      String(code),
+      String(state),
+      req.user!.id
+    );
+
+    return res.status(201).json({
+      success: true,
+      data: { identity },
+    });
+  } catch (error) {
+    return sendCallbackError(res, error, "Failed to link account");
+  }
+};
+
+// List Linked Identities
+export const getIdentities = async (req: Request, res: Response) => {
+  try {
+    const identities = await prisma.userIdentity.findMany({
+      where: { userId: req.user!.id },
+      select: identitySelect,
+      orderBy: { createdAt: "asc" },
+    });
+
+    return res.json({
+      success: true,
+      data: { identities },
+    });
+  } catch (error) {
+    console.error("Get identities error:", error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to get linked accounts",
+      },
+    });
+  }
+};
+
+// Unlink an Identity (never the last way to sign in)
+export const unlinkIdentity = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+
+    const [identity, user, identityCount] = await Promise.all([
+      prisma.userIdentity.findFirst({
+        where: { id: req.params.id, userId },
+      }),
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { password: true },
+      }),
+      prisma.userIdentity.count({ where: { userId } }),
+    ]);
+
+    if (!identity) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Linked account not found",
+        },
+      });
+    }
+
+    if (!user?.password && identityCount <= 1) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "LAST_SIGN_IN_METHOD",
+          message: "Set a password before unlinking your only sign-in method",
+        },
+      });
+    }
+
+    await prisma.userIdentity.delete({ where: { id: identity.id } });
+
+    return res.json({
+      success: true,
+      data: {
+        message: "Account unlinked",
+      },
+    });
+  } catch (error) {
+    console.error("Unlink identity error:", error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to unlink account",
+      },
+    });
+  }
+};
@@ -0,0 +1,93 @@
+import { Response } from "express";
+import { AuthRequest } from "../types/index.js";
+import {
+  SavedSearchError,
+  savedSearchService,
+} from "../services/savedSearch.service.js";
+import { listingService } from "../services/listing.service.js";
+
+const errorStatus: Record<SavedSearchError["code"], number> = {
+  NOT_FOUND: 404,
+  VALIDATION_ERROR: 400,
+  LIMIT_REACHED: 409,
+};
+
+const sendError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof SavedSearchError) {
+    const status = errorStatus[error.code];
+    res.status(status).json({
+      success: false,
+      error: error.message,
+      status,
+      data: error.issues ? { issues: error.issues } : null,
+    });
+    return;
+  }
+
+  console.error(`${fallback}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallback,
+    status: 500,
+    data: null,
+  });
+};
+
+export const getSavedSearches = async (req: AuthRequest, res: Response) => {
+  try {
+    const items = await savedSearchService.list(req.user.id);
+    res.json({ success: true, data: { items }, status: 200 });
+  } catch (error) {
+    sendError(res, error, "Failed to fetch saved searches");
+  }
+};
+
+export const getSavedSearch = async (req: AuthRequest, res: Response) => {
+  try {
+    const search = await savedSearchService.get(req.user.id, req.params.id);
+    res.json({ success: true, data: search, status: 200 });
+  } catch (error) {
+    sendError(res, error, "Failed to fetch saved search");
+  }
+};
+
+export const createSavedSearch = async (req: AuthRequest, res: Response) => {
+  try {
+    const search = await savedSearchService.create(req.user.id, req.body);
+    res.status(201).json({ success: true, data: search, status: 201 });
+  } catch (error) {
+    sendError(res, error, "Failed to save search");
+  }
+};
+
+export const updateSavedSearch = async (req: AuthRequest, res: Response) => {
+  try {
+    const search = await savedSearchService.update(req.user.id, req.params.id, req.body);
+    res.json({ success: true, data: search, status: 200 });
+  } catch (error) {
+    sendError(res, error, "Failed to update saved search");
+  }
+};
+
+export const deleteSavedSearch = async (req: AuthRequest, res: Response) => {
+  try {
+    await savedSearchService.delete(req.user.id, req.params.id);
+    res.json({ success: true, data: null, status: 200 });
+  } catch (error) {
+    sendError(res, error, "Failed to delete saved search");
+  }
+};
+
+// Run a saved search now; same results as /api/listings/search
+export const runSavedSearch = async (req: AuthRequest, res: Response) => {
+  try {
+    const criteria = await savedSearchService.startRun(req.user.id, req.params.id);
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(50, Math.max(1, parseInt(req.query.limit as string) || 10));
+
+    const data = await listingService.search({ ...criteria, page, limit }, req.user.id);
+    res.json({ success: true, data, status: 200 });
+  } catch (error) {
+    sendError(res, error, "Failed to run saved search");
+  }
+};
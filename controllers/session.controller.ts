@@ -0,0 +1,107 @@
+import { Request, Response } from "express";
+import prisma from "../src/lib/prismaClient.js";
+import { revokeSession } from "../utils/token.utils.js";
+
+// List the authenticated user's active sessions
+export const getSessions = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Not authenticated"
+        }
+      });
+    }
+
+    const sessions = await prisma.session.findMany({
+      where: {
+        userId: req.user.id,
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastSeenAt: true,
+        expiresAt: true
+      },
+      orderBy: { lastSeenAt: "desc" }
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        sessions: sessions.map((session) => ({
+          ...session,
+          current: session.id === req.user?.sessionId
+        }))
+      }
+    });
+  } catch (error) {
+    console.error("Get sessions error:", error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to get sessions"
+      }
+    });
+  }
+};
+
+// Revoke one of the authenticated user's sessions
+export const deleteSession = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Not authenticated"
+        }
+      });
+    }
+
+    const session = await prisma.session.findFirst({
+      where: {
+        id: req.params.id,
+        userId: req.user.id,
+        revokedAt: null
+      },
+      select: { id: true }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Session not found"
+        }
+      });
+    }
+
+    await revokeSession(session.id, "USER_REVOKED");
+
+    return res.json({
+      success: true,
+      data: {
+        message: "Session revoked successfully",
+        current: session.id === req.user.sessionId
+      }
+    });
+  } catch (error) {
+    console.error("Revoke session error:", error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to revoke session"
+      }
+    });
+  }
+};
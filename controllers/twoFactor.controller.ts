@@ -0,0 +1,437 @@
+import { Request, Response } from "express";
+import bcrypt from "bcryptjs";
+import prisma from "../src/lib/prismaClient.js";
+import { serializeOwnUser } from "../utils/user.utils.js";
+import {
+  getLockoutRemaining,
+  recordLockedLogin,
+  recordFailedLogin,
+  resetFailedLogins,
+  recordSuccessfulLogin,
+  sendAccountLocked
+} from "../utils/loginSecurity.utils.js";
+import {
+  generateTokens,
+  getSessionMetadata,
+  hashToken,
+  claimTwoFactorAttempt,
+  completeTwoFactorChallenge,
+} from "../utils/token.utils.js";
+import {
+  generateTotpSecret,
+  verifyTotp,
+  buildOtpauthUri,
+  encryptTotpSecret,
+  decryptTotpSecret,
+  generateRecoveryCodes,
+  normalizeRecoveryCode,
+} from "../utils/totp.utils.js";
+
+interface SecondFactorUser {
+  id: string;
+  twoFactorSecret: string | null;
+  twoFactorLastUsedStep: number | null;
+}
+
+interface SecondFactorInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+// Accept a TOTP code at most once per time step
+const consumeTotpCode = async (
+  user: SecondFactorUser,
+  code: string
+): Promise<boolean> => {
+  if (!user.twoFactorSecret) {
+    return false;
+  }
+
+  const step = verifyTotp(decryptTotpSecret(user.twoFactorSecret), code);
+  if (step === null) {
+    return false;
+  }
+
+  const claimed = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [
+        { twoFactorLastUsedStep: null },
+        { twoFactorLastUsedStep: { lt: step } }
+      ]
+    },
+    data: { twoFactorLastUsedStep: step }
+  });
+  return claimed.count > 0;
+};
+
+const consumeRecoveryCode = async (
+  userId: string,
+  recoveryCode: string
+): Promise<boolean> => {
+  const claimed = await prisma.twoFactorRecoveryCode.updateMany({
+    where: {
+      userId,
+      codeHash: hashToken(normalizeRecoveryCode(recoveryCode)),
+      usedAt: null
+    },
+    data: { usedAt: new Date() }
+  });
+  return claimed.count > 0;
+};
+
+const consumeSecondFactor = async (
+  user: SecondFactorUser,
+  { code, recoveryCode }: SecondFactorInput
+): Promise<boolean> => {
+  if (code) {
+    return consumeTotpCode(user, String(code));
+  }
+  if (recoveryCode) {
+    return consumeRecoveryCode(user.id, String(recoveryCode));
+  }
+  return false;
+};
+
+// Replace all recovery codes and return the new plaintext ones (shown once)
+const replaceRecoveryCodes = async (userId: string): Promise<string[]> => {
+  const codes = generateRecoveryCodes();
+
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashToken(code) }))
+    })
+  ]);
+
+  return codes;
+};
+
+const secondFactorSelect = {
+  id: true,
+  email: true,
+  password: true,
+  twoFactorEnabled: true,
+  twoFactorSecret: true,
+  twoFactorLastUsedStep: true
+} as const;
+
+// Start Enrollment: create a pending secret
+export const setupTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: secondFactorSelect
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "User not found"
+        }
+      });
+    }
+
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "TWO_FACTOR_ALREADY_ENABLED",
+          message: "Two-factor authentication is already enabled"
+        }
+      });
+    }
+
+    const secret = generateTotpSecret();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorSecret: encryptTotpSecret(secret),
+        twoFactorLastUsedStep: null
+      }
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        secret,
+        otpauthUri: buildOtpauthUri(secret, user.email)
+      }
+    });
+  } catch (error) {
+    console.error("2FA setup error:", error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to start two-factor setup"
+      }
+    });
+  }
+};
+
+// Finish Enrollment: a first valid code activates 2FA
+export const activateTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: secondFactorSelect
+    });
+
+    if (!user || !user.twoFactorSecret || user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "TWO_FACTOR_NOT_PENDING",
+          message: "Start two-factor setup first"
+        }
+      });
+    }
+
+    if (!code || !(await consumeTotpCode(user, String(code)))) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "INVALID_CODE",
+          message: "Invalid verification code"
+        }
+      });
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorEnabled: true }
+    });
+
+    const recoveryCodes = await replaceRecoveryCodes(user.id);
+
+    return res.json({
+      success: true,
+      data: {
+        message: "Two-factor authentication enabled",
+        recoveryCodes
+      }
+    });
+  } catch (error) {
+    console.error("2FA activation error:", error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to enable two-factor authentication"
+      }
+    });
+  }
+};
+
+// Disable 2FA (password plus a code or recovery code)
+export const disableTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { password, code, recoveryCode } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: secondFactorSelect
+    });
+
+    if (!user || !user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "TWO_FACTOR_NOT_ENABLED",
+          message: "Two-factor authentication is not enabled"
+        }
+      });
+    }
+
+    // Provider-only accounts have no password; the second factor must do
+    const passwordMatches =
+      user.password === null ||
+      (typeof password === "string" &&
+        (await bcrypt.compare(password, user.password)));
+
+    if (!passwordMatches || !(await consumeSecondFactor(user, { code, recoveryCode }))) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "INVALID_CREDENTIALS",
+          message: "Invalid password or verification code"
+        }
+      });
+    }
+
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId: user.id } }),
+      prisma.user.update({
+        where: { id: user.id },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorLastUsedStep: null
+        }
+      })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        message: "Two-factor authentication disabled"
+      }
+    });
+  } catch (error) {
+    console.error("2FA disable error:", error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to disable two-factor authentication"
+      }
+    });
+  }
+};
+
+// Regenerate Recovery Codes (requires a current TOTP code)
+export const regenerateRecoveryCodes = async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: secondFactorSelect
+    });
+
+    if (!user || !user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "TWO_FACTOR_NOT_ENABLED",
+          message: "Two-factor authentication is not enabled"
+        }
+      });
+    }
+
+    if (!code || !(await consumeTotpCode(user, String(code)))) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "INVALID_CODE",
+          message: "Invalid verification code"
+        }
+      });
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(user.id);
+
+    return res.json({
+      success: true,
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    console.error("2FA recovery code error:", error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to regenerate recovery codes"
+      }
+    });
+  }
+};
+
+// Second Login Step: exchange a challenge plus code for real tokens
+export const verifyTwoFactorLogin = async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Challenge token and a code or recovery code are required"
+        }
+      });
+    }
+
+    // Every submission spends one of the challenge's attempts
+    const userId = await claimTwoFactorAttempt(String(challengeToken));
+    const user = userId
+      ? await prisma.user.findUnique({ where: { id: userId } })
+      : null;
+
+    if (!user || !user.twoFactorEnabled) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "INVALID_TOKEN",
+          message: "Login challenge is invalid or has expired, please sign in again"
+        }
+      });
+    }
+
+    const metadata = getSessionMetadata(req);
+
+    // A locked account gets no code checks either until the lock expires
+    const lockoutRemaining = getLockoutRemaining(user);
+    if (lockoutRemaining > 0) {
+      await recordLockedLogin(user.id, metadata);
+      return sendAccountLocked(res, lockoutRemaining);
+    }
+
+    // Wrong codes count toward the same lockout as wrong passwords
+    if (!(await consumeSecondFactor(user, { code, recoveryCode }))) {
+      const lockedUntil = await recordFailedLogin(
+        user.id,
+        metadata,
+        "INVALID_TWO_FACTOR_CODE"
+      );
+      if (lockedUntil) {
+        return sendAccountLocked(res, lockedUntil.getTime() - Date.now());
+      }
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "INVALID_CODE",
+          message: "Invalid verification code"
+        }
+      });
+    }
+
+    // Only one request can turn the challenge into a session
+    if (!(await completeTwoFactorChallenge(String(challengeToken)))) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "INVALID_TOKEN",
+          message: "Login challenge is invalid or has expired, please sign in again"
+        }
+      });
+    }
+
+    await resetFailedLogins(user.id);
+    const tokens = await generateTokens(user.id, metadata);
+    await recordSuccessfulLogin(user.id, metadata, "TWO_FACTOR");
+
+    return res.json({
+      success: true,
+      data: {
+        user: serializeOwnUser(user),
+        tokens
+      }
+    });
+  } catch (error) {
+    console.error("2FA verify error:", error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to verify login"
+      }
+    });
+  }
+};
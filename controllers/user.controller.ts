@@ -1,20 +1,44 @@
-import { Response } from "express";
+import { Request, Response } from "express";
 import prisma from "../src/lib/prismaClient.js";
 import bcrypt from "bcryptjs";
 import validator from "validator";
 import { uploadToR2 } from "../config/cloudflareR2.js";
-import { Prisma, User } from "@prisma/client";
+import { Prisma } from "@prisma/client";
+import { env } from "../config/env.js";
+import { sendVerificationEmail } from "../utils/email.utils.js";
+import { AuthRequest, InputJsonValue } from "../types/index.js";
 import {
-  AuthRequest,
-  UserPreferences,
-  InputJsonValue,
-} from "../types/index.js";
+  USERNAME_CHANGE_COOLDOWN_MS,
+  normalizeUsername,
+  getUsernameProblem,
+  isUsernameAvailable,
+  suggestUsernames,
+} from "../utils/username.utils.js";
+import { serializeOwnUser, serializePublicProfile } from "../utils/user.utils.js";
+import { scheduleAccountDeletion } from "../utils/accountDeletion.utils.js";
+import { placeErrors, placeFields } from "../utils/geo.utils.js";
+import {
+  userPreferencesPatchSchema,
+  migratePreferences,
+  needsMigration,
+  deepMerge,
+  formatPreferenceIssues,
+} from "../utils/preferences.utils.js";
 
 interface UpdateData {
   email?: string;
+  emailVerified?: boolean;
+  emailVerifiedAt?: Date | null;
   username?: string;
+  usernameChangedAt?: Date;
   password?: string;
   bio?: string;
+  location?: string | null;
+  country?: string | null;
+  region?: string | null;
+  city?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
   profilePicture?: string;
   preferences?: Prisma.InputJsonValue;
 }
@@ -23,11 +47,6 @@ interface UploadResult {
   url: string;
 }
 
-// Define type for user with preferences
-type UserWithPreferences = User & {
-  preferences: UserPreferences | null;
-};
-
 /**
  * ✅ Get the user's profile
  */
@@ -56,7 +75,7 @@ export const getUserProfile = async (req: AuthRequest, res: Response) => {
 
     res.status(200).json({
       success: true,
-      data: user,
+      data: serializeOwnUser(user),
       status: 200,
     });
   } catch (error) {
@@ -70,6 +89,174 @@ export const getUserProfile = async (req: AuthRequest, res: Response) => {
   }
 };
 
+/**
+ * ✅ Check whether a username can be taken (public)
+ */
+export const checkUsernameAvailability = async (req: Request, res: Response) => {
+  try {
+    const username = normalizeUsername(String(req.query.username ?? ""));
+    const problem = getUsernameProblem(username);
+
+    if (problem) {
+      return res.status(200).json({
+        success: true,
+        data: {
+          username,
+          available: false,
+          reason: problem,
+          suggestions: username ? await suggestUsernames(username) : [],
+        },
+        status: 200,
+      });
+    }
+
+    const available = await isUsernameAvailable(username);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        username,
+        available,
+        ...(!available && {
+          reason: "Username already in use",
+          suggestions: await suggestUsernames(username),
+        }),
+      },
+      status: 200,
+    });
+  } catch (error) {
+    console.error("Username availability error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Error checking username",
+      status: 500,
+      data: null,
+    });
+  }
+};
+
+const PUBLIC_LISTINGS_PAGE_SIZE = 12;
+const MAX_PUBLIC_LISTINGS_PAGE_SIZE = 50;
+
+// Listings a buyer can see on a seller's page
+const publicListingWhere = (userId: string): Prisma.ListingWhereInput => ({
+  userId,
+  status: "ACTIVE",
+  hiddenAt: null,
+});
+
+/**
+ * Share of conversations with an incoming message that the seller answered
+ * at least once, as a whole percentage; null until anyone has written.
+ */
+const getResponseRate = async (userId: string) => {
+  const received: Prisma.ConversationWhereInput = {
+    messages: { some: { recipientId: userId } },
+  };
+
+  const [receivedCount, answeredCount] = await Promise.all([
+    prisma.conversation.count({ where: received }),
+    prisma.conversation.count({
+      where: {
+        AND: [received, { messages: { some: { senderId: userId } } }],
+      },
+    }),
+  ]);
+
+  return receivedCount ? Math.round((answeredCount / receivedCount) * 100) : null;
+};
+
+/**
+ * ✅ Get a seller's public profile (public)
+ */
+export const getPublicProfile = async (req: Request, res: Response) => {
+  try {
+    const user = await prisma.user.findFirst({
+      where: {
+        username: normalizeUsername(req.params.username),
+        deletionRequestedAt: null,
+      },
+      select: {
+        id: true,
+        username: true,
+        profilePicture: true,
+        bio: true,
+        location: true,
+        city: true,
+        region: true,
+        country: true,
+        createdAt: true,
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: "User not found",
+        status: 404,
+        data: null,
+      });
+    }
+
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(
+      MAX_PUBLIC_LISTINGS_PAGE_SIZE,
+      Math.max(1, parseInt(req.query.limit as string) || PUBLIC_LISTINGS_PAGE_SIZE),
+    );
+
+    const [activeListingCount, responseRate, listings] = await Promise.all([
+      prisma.listing.count({ where: publicListingWhere(user.id) }),
+      getResponseRate(user.id),
+      prisma.listing.findMany({
+        where: publicListingWhere(user.id),
+        select: {
+          id: true,
+          title: true,
+          price: true,
+          mainCategory: true,
+          subCategory: true,
+          location: true,
+          createdAt: true,
+          images: {
+            select: { url: true },
+            orderBy: { order: "asc" },
+            take: 1,
+          },
+        },
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        profile: serializePublicProfile(user, { activeListingCount, responseRate }),
+        listings: {
+          items: listings.map(({ images, ...listing }) => ({
+            ...listing,
+            image: images[0]?.url ?? null,
+          })),
+          total: activeListingCount,
+          page,
+          limit,
+          hasMore: activeListingCount > page * limit,
+        },
+      },
+      status: 200,
+    });
+  } catch (error) {
+    console.error("Error fetching public profile:", error);
+    res.status(500).json({
+      success: false,
+      error: "Error fetching profile",
+      status: 500,
+      data: null,
+    });
+  }
+};
+
 /**
  * ✅ Update user profile
  */
@@ -87,7 +274,11 @@ export const updateProfile = async (req: AuthRequest, res: Response) => {
 
     const updates: UpdateData = {};
 
-    const { email, username, password, bio } = req.body;
+    const { username, password, bio } = req.body;
+    const email =
+      typeof req.body.email === "string"
+        ? req.body.email.trim().toLowerCase()
+        : undefined;
 
     if (email && !validator.isEmail(email)) {
       return res.status(400).json({
@@ -108,12 +299,76 @@ export const updateProfile = async (req: AuthRequest, res: Response) => {
           data: null,
         });
       }
-      updates.email = email.trim();
+      updates.email = email;
+      // A changed address has to be verified again
+      updates.emailVerified = false;
+      updates.emailVerifiedAt = null;
     }
 
-    if (username) updates.username = username.trim();
+    if (username && normalizeUsername(username) !== user.username) {
+      const nextUsername = normalizeUsername(username);
+
+      const problem = getUsernameProblem(nextUsername);
+      if (problem) {
+        return res.status(400).json({
+          success: false,
+          error: problem,
+          status: 400,
+          data: null,
+        });
+      }
+
+      const nextChangeAt = user.usernameChangedAt
+        ? new Date(user.usernameChangedAt.getTime() + USERNAME_CHANGE_COOLDOWN_MS)
+        : null;
+      if (nextChangeAt && nextChangeAt > new Date()) {
+        return res.status(429).json({
+          success: false,
+          error: `You can change your username again after ${nextChangeAt.toISOString()}`,
+          status: 429,
+          data: { nextChangeAt },
+        });
+      }
+
+      if (!(await isUsernameAvailable(nextUsername, user.id))) {
+        return res.status(400).json({
+          success: false,
+          error: "Username already in use",
+          status: 400,
+          data: { suggestions: await suggestUsernames(nextUsername) },
+        });
+      }
+
+      updates.username = nextUsername;
+      updates.usernameChangedAt = new Date();
+    }
     if (bio) updates.bio = bio.trim();
 
+    // Multipart bodies send coordinates as strings
+    const coordinate = (value: unknown) =>
+      value === undefined || value === "" ? undefined : Number(value);
+    const place = {
+      location: req.body.location,
+      country: req.body.country,
+      region: req.body.region,
+      city: req.body.city,
+      latitude: coordinate(req.body.latitude),
+      longitude: coordinate(req.body.longitude),
+    };
+    const [placeProblem] = placeErrors(place);
+    if (placeProblem) {
+      return res.status(400).json({
+        success: false,
+        error: placeProblem,
+        status: 400,
+        data: null,
+      });
+    }
+    if (typeof place.location === "string") {
+      updates.location = place.location.trim() || null;
+    }
+    Object.assign(updates, placeFields(place));
+
     if (password) {
       if (password.length < 6) {
         return res.status(400).json({
@@ -146,9 +401,16 @@ export const updateProfile = async (req: AuthRequest, res: Response) => {
       data: updates,
     });
 
+    if (updates.email && env.ENABLE_EMAIL_VERIFICATION) {
+      // A mail failure must not fail the update; the user can ask for a resend
+      await sendVerificationEmail(updatedUser).catch((error) =>
+        console.error("Verification email error:", error)
+      );
+    }
+
     res.status(200).json({
       success: true,
-      data: updatedUser,
+      data: serializeOwnUser(updatedUser),
       status: 200,
     });
   } catch (error) {
@@ -192,7 +454,7 @@ export const getUserListings = async (req: AuthRequest, res: Response) => {
 };
 
 /**
- * ✅ Delete user and related data
+ * ✅ Delete the user's account (soft delete; purged after a grace period)
  */
 export const deleteUser = async (req: AuthRequest, res: Response) => {
   try {
@@ -202,19 +464,36 @@ export const deleteUser = async (req: AuthRequest, res: Response) => {
         .status(404)
         .json({ success: false, error: "User not found", status: 404 });
 
-    // Delete favorites, listings, etc. before user
-    await prisma.favorite.deleteMany({ where: { userId: user.id } });
-    await prisma.listing.deleteMany({ where: { userId: user.id } });
-
-    await prisma.user.delete({ where: { id: user.id } });
+    // Re-confirm with the password, or the username for provider-only accounts
+    const { password, username } = req.body;
+    const confirmed = user.password
+      ? typeof password === "string" &&
+        (await bcrypt.compare(password, user.password))
+      : typeof username === "string" &&
+        normalizeUsername(username) === user.username;
 
-    res
-      .status(200)
-      .json({
-        success: true,
-        data: { message: "Account and listings deleted successfully" },
-        status: 200,
+    if (!confirmed) {
+      return res.status(401).json({
+        success: false,
+        error: user.password
+          ? "Incorrect password"
+          : "Type your username to confirm",
+        status: 401,
+        data: null,
       });
+    }
+
+    const deletionScheduledFor = await scheduleAccountDeletion(user.id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        message:
+          "Your account has been scheduled for deletion. Sign in again before the deletion date to cancel it.",
+        deletionScheduledFor,
+      },
+      status: 200,
+    });
   } catch (error) {
     console.error("Delete error:", error);
     res
@@ -224,14 +503,13 @@ export const deleteUser = async (req: AuthRequest, res: Response) => {
 };
 
 /**
- * ✅ Get user settings
+ * ✅ Export everything stored about the user as a JSON download
  */
-export const getUserSettings = async (req: AuthRequest, res: Response) => {
+export const exportUserData = async (req: AuthRequest, res: Response) => {
   try {
-    const user = (await prisma.user.findUnique({
-      where: { id: req.user.id },
-    })) as UserWithPreferences;
+    const userId = req.user.id;
 
+    const user = await prisma.user.findUnique({ where: { id: userId } });
     if (!user) {
       return res.status(404).json({
         success: false,
@@ -241,33 +519,128 @@ export const getUserSettings = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Initialize default preferences
-    const defaultPreferences: UserPreferences = {
-      language: "en",
-      theme: "light",
-      notifications: {
-        email: true,
-        push: true,
-        sms: false,
-        enabledTypes: [],
-        emailNotifications: {
-          newMessage: true,
-          listingUpdates: true,
-          promotions: false,
+    const [
+      listings,
+      favorites,
+      conversations,
+      sentMessages,
+      receivedMessages,
+      notifications,
+      sessions,
+      loginEvents,
+      identities,
+      reports,
+      savedSearches,
+    ] = await Promise.all([
+      prisma.listing.findMany({
+        where: { userId },
+        include: {
+          images: true,
+          attributes: true,
+          features: true,
+          vehicleDetails: true,
+          realEstateDetails: true,
+          priceHistory: { orderBy: { changedAt: "asc" } },
         },
-      },
-      currency: "USD",
-      timezone: "UTC",
-      dateFormat: "MM/DD/YYYY",
-      autoLocalization: true,
-    };
+      }),
+      prisma.favorite.findMany({ where: { userId } }),
+      prisma.conversation.findMany({
+        where: { participants: { some: { id: userId } } },
+        include: { participants: { select: { id: true, username: true } } },
+      }),
+      prisma.message.findMany({ where: { senderId: userId } }),
+      prisma.message.findMany({ where: { recipientId: userId } }),
+      prisma.notification.findMany({ where: { userId } }),
+      prisma.session.findMany({
+        where: { userId },
+        select: {
+          id: true,
+          userAgent: true,
+          ipAddress: true,
+          createdAt: true,
+          lastSeenAt: true,
+          expiresAt: true,
+          revokedAt: true,
+          revokedReason: true,
+        },
+      }),
+      prisma.loginEvent.findMany({ where: { userId } }),
+      prisma.userIdentity.findMany({
+        where: { userId },
+        select: { provider: true, email: true, createdAt: true, lastUsedAt: true },
+      }),
+      prisma.conversationReport.findMany({ where: { reporterId: userId } }),
+      prisma.savedSearch.findMany({
+        where: { userId },
+        include: {
+          matches: {
+            select: { listingId: true, createdAt: true, notifiedAt: true },
+            orderBy: { createdAt: "asc" },
+          },
+        },
+      }),
+    ]);
+
+    const exportedAt = new Date();
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="tijara-export-${exportedAt.toISOString().slice(0, 10)}.json"`
+    );
+    res.status(200).json({
+      exportedAt,
+      account: serializeOwnUser(user),
+      listings,
+      favorites,
+      conversations,
+      messages: { sent: sentMessages, received: receivedMessages },
+      notifications,
+      sessions,
+      loginEvents,
+      identities,
+      reports,
+      savedSearches,
+    });
+  } catch (error) {
+    console.error("Export error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Error exporting user data",
+      status: 500,
+      data: null,
+    });
+  }
+};
+
+/**
+ * ✅ Get user settings (stored preferences are upgraded on read)
+ */
+export const getUserSettings = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { preferences: true },
+    });
 
-    // Use the stored preferences or default ones
-    const userPreferences = user.preferences || defaultPreferences;
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: "User not found",
+        status: 404,
+        data: null,
+      });
+    }
+
+    const preferences = migratePreferences(user.preferences);
+    if (needsMigration(user.preferences)) {
+      await prisma.user.update({
+        where: { id: req.user.id },
+        data: { preferences },
+      });
+    }
 
     res.status(200).json({
       success: true,
-      data: { preferences: userPreferences },
+      data: { preferences },
       status: 200,
     });
   } catch (error) {
@@ -282,66 +655,45 @@ export const getUserSettings = async (req: AuthRequest, res: Response) => {
 };
 
 /**
- * ✅ Update user settings
+ * ✅ Update user settings (deep-merges a partial update into the stored ones)
  */
 export const updateUserSettings = async (req: AuthRequest, res: Response) => {
   try {
-    const { preferences } = req.body;
+    const parsed = userPreferencesPatchSchema.safeParse(req.body.preferences);
 
-    // Validate preferences structure
-    if (!preferences || typeof preferences !== 'object') {
+    if (!parsed.success) {
       return res.status(400).json({
         success: false,
-        error: "Invalid preferences format",
+        error: "Invalid preferences",
         status: 400,
-        data: null,
+        data: { issues: formatPreferenceIssues(parsed.error) },
       });
     }
 
-    // Ensure preferences has the correct structure
-    const defaultPreferences: UserPreferences = {
-      language: "en",
-      theme: "light",
-      notifications: {
-        email: true,
-        push: true,
-        sms: false,
-        enabledTypes: [],
-        emailNotifications: {
-          newMessage: true,
-          listingUpdates: true,
-          promotions: true
-        }
-      },
-      currency: "USD",
-      timezone: "UTC",
-      dateFormat: "MM/DD/YYYY"
-    };
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { preferences: true },
+    });
 
-    // Merge with defaults to ensure all required fields are present
-    const updatedPreferences = {
-      ...defaultPreferences,
-      ...preferences,
-      notifications: {
-        ...defaultPreferences.notifications,
-        ...(preferences.notifications || {}),
-        emailNotifications: {
-          ...defaultPreferences.notifications.emailNotifications,
-          ...(preferences.notifications?.emailNotifications || {})
-        }
-      }
-    } as UserPreferences;
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: "User not found",
+        status: 404,
+        data: null,
+      });
+    }
 
-    const updatedUser = await prisma.user.update({
+    const preferences = deepMerge(migratePreferences(user.preferences), parsed.data);
+
+    await prisma.user.update({
       where: { id: req.user.id },
-      data: {
-        preferences: updatedPreferences
-      }
+      data: { preferences },
     });
 
     res.status(200).json({
       success: true,
-      data: updatedUser,
+      data: { preferences },
       status: 200,
     });
   } catch (error) {
@@ -0,0 +1,31 @@
+import { purgeDueAccounts } from "../utils/accountDeletion.utils.js";
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+let running = false;
+
+// Hard-delete accounts whose grace period is over; overlapping runs are skipped
+export const runAccountPurge = async (now: Date = new Date()) => {
+  if (running) {
+    return 0;
+  }
+
+  running = true;
+  try {
+    const purged = await purgeDueAccounts(now);
+    if (purged > 0) {
+      console.log(`🗑️ Purged ${purged} deleted account(s)`);
+    }
+    return purged;
+  } finally {
+    running = false;
+  }
+};
+
+export const startAccountPurgeJob = () => {
+  const timer = setInterval(() => {
+    runAccountPurge().catch((error) => console.error("Account purge failed:", error));
+  }, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
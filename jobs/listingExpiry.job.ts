@@ -0,0 +1,132 @@
+import { ListingStatus, Prisma, PrismaClient } from "@prisma/client";
+import prisma from "../src/lib/prismaClient.js";
+import {
+  getListingExpiry,
+  listingExpiryReminderMs,
+} from "../config/listingLifetime.js";
+import { NotificationType } from "../types/enums.js";
+import { withAdvisoryLock } from "../utils/advisoryLock.utils.js";
+
+const EXPIRY_INTERVAL_MS = 15 * 60 * 1000; // every 15 minutes
+
+// Postgres advisory lock key; only one instance runs a pass at a time
+const EXPIRY_LOCK_KEY = 7_241_017;
+
+let running = false;
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Listings published before expiry existed get a full lifetime from now
+const assignMissingExpiry = async (tx: Prisma.TransactionClient, now: Date) => {
+  const categories = await tx.listing.findMany({
+    where: { status: ListingStatus.ACTIVE, expiresAt: null },
+    distinct: ["mainCategory"],
+    select: { mainCategory: true },
+  });
+
+  for (const { mainCategory } of categories) {
+    await tx.listing.updateMany({
+      where: { status: ListingStatus.ACTIVE, expiresAt: null, mainCategory },
+      data: { expiresAt: getListingExpiry(mainCategory, now) },
+    });
+  }
+};
+
+const sendExpiryReminders = async (tx: Prisma.TransactionClient, now: Date) => {
+  const due = await tx.listing.findMany({
+    where: {
+      status: ListingStatus.ACTIVE,
+      expiresAt: { gt: now, lte: new Date(now.getTime() + listingExpiryReminderMs) },
+      expiryReminderSentAt: null,
+    },
+    select: { id: true, title: true, userId: true, expiresAt: true },
+  });
+
+  if (due.length === 0) {
+    return 0;
+  }
+
+  await tx.listing.updateMany({
+    where: { id: { in: due.map((listing) => listing.id) } },
+    data: { expiryReminderSentAt: now },
+  });
+  await tx.notification.createMany({
+    data: due.map((listing) => ({
+      userId: listing.userId,
+      type: NotificationType.LISTING_EXPIRY,
+      content: `Your listing "${listing.title}" expires on ${formatDate(listing.expiresAt!)}. Renew it to keep it visible.`,
+      relatedId: listing.id,
+    })),
+  });
+  return due.length;
+};
+
+const expireListings = async (tx: Prisma.TransactionClient, now: Date) => {
+  const due = await tx.listing.findMany({
+    where: { status: ListingStatus.ACTIVE, expiresAt: { lte: now } },
+    select: { id: true, title: true, userId: true },
+  });
+
+  if (due.length === 0) {
+    return 0;
+  }
+
+  await tx.listing.updateMany({
+    where: { id: { in: due.map((listing) => listing.id) }, status: ListingStatus.ACTIVE },
+    data: { status: ListingStatus.EXPIRED },
+  });
+  await tx.notification.createMany({
+    data: due.map((listing) => ({
+      userId: listing.userId,
+      type: NotificationType.LISTING_EXPIRY,
+      content: `Your listing "${listing.title}" has expired and is no longer visible. Renew it to list it again.`,
+      relatedId: listing.id,
+    })),
+  });
+  return due.length;
+};
+
+/**
+ * One expiry pass as of `now`: remind owners of listings about to expire,
+ * then move ACTIVE listings past `expiresAt` to EXPIRED. Every step only
+ * touches rows it has not handled yet, so repeating a pass is harmless.
+ * The pass runs in one transaction holding an advisory lock; when another
+ * instance holds it, this one skips and returns null.
+ */
+export const runListingExpiry = async (
+  now: Date = new Date(),
+  db: PrismaClient = prisma
+) => {
+  if (running) {
+    return null;
+  }
+
+  running = true;
+  try {
+    const result = await withAdvisoryLock(db, EXPIRY_LOCK_KEY, async (tx) => {
+      await assignMissingExpiry(tx, now);
+      const reminded = await sendExpiryReminders(tx, now);
+      const expired = await expireListings(tx, now);
+      return { reminded, expired };
+    });
+
+    if (result && (result.reminded > 0 || result.expired > 0)) {
+      console.log(
+        `⏰ Listing expiry: ${result.reminded} reminder(s), ${result.expired} expired`
+      );
+    }
+    return result;
+  } finally {
+    running = false;
+  }
+};
+
+export const startListingExpiryJob = (clock: () => Date = () => new Date()) => {
+  const timer = setInterval(() => {
+    runListingExpiry(clock()).catch((error) =>
+      console.error("Listing expiry failed:", error)
+    );
+  }, EXPIRY_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
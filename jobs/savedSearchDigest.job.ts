@@ -0,0 +1,44 @@
+import { PrismaClient } from "@prisma/client";
+import prisma from "../src/lib/prismaClient.js";
+import { savedSearchService } from "../services/savedSearch.service.js";
+import { withAdvisoryLock } from "../utils/advisoryLock.utils.js";
+
+const DIGEST_CHECK_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+// Postgres advisory lock key; only one instance sends digests at a time
+const DIGEST_LOCK_KEY = 7_241_020;
+
+let running = false;
+
+// Send saved-search digests that are due as of `now`; null when skipped
+export const runSavedSearchDigest = async (
+  now: Date = new Date(),
+  db: PrismaClient = prisma
+) => {
+  if (running) {
+    return null;
+  }
+
+  running = true;
+  try {
+    const sent = await withAdvisoryLock(db, DIGEST_LOCK_KEY, (tx) =>
+      savedSearchService.sendDailyDigests(tx, now)
+    );
+    if (sent) {
+      console.log(`🔔 Sent ${sent} saved search digest(s)`);
+    }
+    return sent;
+  } finally {
+    running = false;
+  }
+};
+
+export const startSavedSearchDigestJob = (clock: () => Date = () => new Date()) => {
+  const timer = setInterval(() => {
+    runSavedSearchDigest(clock()).catch((error) =>
+      console.error("Saved search digest failed:", error)
+    );
+  }, DIGEST_CHECK_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
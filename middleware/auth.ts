@@ -3,25 +3,28 @@ import jwt from "jsonwebtoken";
 import rateLimit from "express-rate-limit";
 import prisma from "../src/lib/prismaClient.js";
 import { env } from "../config/env.js";
+import { UserRole } from "@prisma/client";
+import { AuthPrincipal } from "../types/index.js";
+import { Permission } from "../types/enums.js";
+import { hasPermission } from "../config/permissions.js";
 
 // Add JWT payload type
 interface JWTPayload {
   id: string;
+  sid?: string;
   exp: number;
 }
 
 declare global {
   namespace Express {
     interface Request {
-      user?: {
-        id: string;
-        email: string;
-        role: string;
-      };
+      user?: AuthPrincipal;
     }
   }
 }
 
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+
 // Rate limiters
 export const loginLimiter = rateLimit({
   windowMs: env.NODE_ENV === 'development' ? 1000 : 15 * 60 * 1000,
@@ -55,11 +58,135 @@ export const uploadLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+export const verificationEmailLimiter = rateLimit({
+  windowMs: env.NODE_ENV === 'development' ? 1000 : 60 * 60 * 1000,
+  max: env.NODE_ENV === 'development' ? 100 : 3,
+  message: {
+    success: false,
+    error: {
+      code: "RATE_LIMIT",
+      message: env.NODE_ENV === 'development'
+        ? "Rate limit hit (development mode)"
+        : "Too many verification emails requested, please try again later"
+    }
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+export const passwordResetLimiter = rateLimit({
+  windowMs: env.NODE_ENV === 'development' ? 1000 : 15 * 60 * 1000,
+  max: env.NODE_ENV === 'development' ? 100 : 5,
+  message: {
+    success: false,
+    error: {
+      code: "RATE_LIMIT",
+      message: env.NODE_ENV === 'development'
+        ? "Rate limit hit (development mode)"
+        : "Too many password reset requests, please try again after 15 minutes"
+    }
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Availability checks are public, so keep them from being used to enumerate users
+export const usernameCheckLimiter = rateLimit({
+  windowMs: env.NODE_ENV === 'development' ? 1000 : 60 * 1000,
+  max: env.NODE_ENV === 'development' ? 100 : 20,
+  message: {
+    success: false,
+    error: {
+      code: "RATE_LIMIT",
+      message: env.NODE_ENV === 'development'
+        ? "Rate limit hit (development mode)"
+        : "Too many username checks, please slow down"
+    }
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Why a token could not be turned into a principal
+class AuthError extends Error {
+  code: "INVALID_TOKEN" | "TOKEN_EXPIRED" | "SESSION_REVOKED";
+
+  constructor(code: AuthError["code"], message: string) {
+    super(message);
+    this.name = "AuthError";
+    this.code = code;
+  }
+}
+
+const getBearerToken = (req: Request): string | null => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  return authHeader.split(' ')[1] || null;
+};
+
+/**
+ * Resolve an access token to the principal behind it. The token must be
+ * valid and its session must still be active; throws AuthError otherwise.
+ */
+const resolvePrincipal = async (token: string): Promise<AuthPrincipal> => {
+  const jwtSecret = env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error("JWT_SECRET is not configured");
+  }
+
+  let decoded: JWTPayload;
+  try {
+    decoded = jwt.verify(token, jwtSecret) as JWTPayload;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new AuthError("TOKEN_EXPIRED", "Token has expired");
+    }
+    throw new AuthError("INVALID_TOKEN", "Invalid token");
+  }
+
+  // Tokens issued before sessions existed carry no session id
+  if (!decoded.sid) {
+    throw new AuthError("INVALID_TOKEN", "Invalid token");
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: decoded.sid },
+    select: {
+      userId: true,
+      revokedAt: true,
+      expiresAt: true,
+      lastSeenAt: true,
+      user: { select: { id: true, email: true, username: true, role: true } }
+    }
+  });
+
+  if (
+    !session ||
+    session.userId !== decoded.id ||
+    session.revokedAt ||
+    session.expiresAt <= new Date()
+  ) {
+    throw new AuthError("SESSION_REVOKED", "Session is no longer active");
+  }
+
+  // Only write last-seen once per interval to keep reads cheap
+  if (Date.now() - session.lastSeenAt.getTime() > SESSION_TOUCH_INTERVAL_MS) {
+    await prisma.session.update({
+      where: { id: decoded.sid },
+      data: { lastSeenAt: new Date() }
+    });
+  }
+
+  return { ...session.user, sessionId: decoded.sid };
+};
+
 // Auth middleware
 export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    const token = getBearerToken(req);
+    if (!token) {
       return res.status(401).json({
         success: false,
         error: {
@@ -69,53 +196,19 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
       });
     }
 
-    const token = authHeader.split(' ')[1];
-    const jwtSecret = env.JWT_SECRET;
-
-    if (!jwtSecret) {
-      throw new Error("JWT_SECRET is not configured");
-    }
-
-    try {
-      const decoded = jwt.verify(token, jwtSecret) as JWTPayload;
-      
-      const user = await prisma.user.findUnique({
-        where: { id: decoded.id },
-        select: { id: true, email: true, role: true }
-      });
-
-      if (!user) {
-        return res.status(401).json({
-          success: false,
-          error: {
-            code: "UNAUTHORIZED",
-            message: "User not found"
-          }
-        });
-      }
-
-      req.user = user;
-      next();
-    } catch (error) {
-      if (error instanceof jwt.TokenExpiredError) {
-        return res.status(401).json({
-          success: false,
-          error: {
-            code: "TOKEN_EXPIRED",
-            message: "Token has expired"
-          }
-        });
-      }
-      
+    req.user = await resolvePrincipal(token);
+    next();
+  } catch (error) {
+    if (error instanceof AuthError) {
       return res.status(401).json({
         success: false,
         error: {
-          code: "INVALID_TOKEN",
-          message: "Invalid token"
+          code: error.code,
+          message: error.message
         }
       });
     }
-  } catch (error) {
+
     console.error("Auth middleware error:", error);
     return res.status(500).json({
       success: false,
@@ -127,6 +220,24 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
   }
 };
 
+// Optional auth for public routes: attaches the principal when a valid token
+// is sent and otherwise carries on anonymously
+export const optionalAuth = async (req: Request, res: Response, next: NextFunction) => {
+  const token = getBearerToken(req);
+  if (!token) {
+    return next();
+  }
+
+  try {
+    req.user = await resolvePrincipal(token);
+  } catch (error) {
+    if (!(error instanceof AuthError)) {
+      console.error("Optional auth middleware error:", error);
+    }
+  }
+  next();
+};
+
 // Role middleware
 export const isAdmin = (req: Request, res: Response, next: NextFunction) => {
   if (!req.user) {
@@ -139,7 +250,7 @@ export const isAdmin = (req: Request, res: Response, next: NextFunction) => {
     });
   }
 
-  if (req.user.role !== 'ADMIN') {
+  if (req.user.role !== UserRole.ADMIN) {
     return res.status(403).json({
       success: false,
       error: {
@@ -152,6 +263,93 @@ export const isAdmin = (req: Request, res: Response, next: NextFunction) => {
   next();
 };
 
+// Permission middleware (use after authenticate); every listed permission is required
+export const requirePermission = (...permissions: Permission[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Authentication required"
+        }
+      });
+    }
+
+    const role = req.user.role;
+    if (!permissions.every((permission) => hasPermission(role, permission))) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: "FORBIDDEN",
+          message: "You don't have permission to perform this action"
+        }
+      });
+    }
+
+    next();
+  };
+
+// Email verification middleware (no-op unless ENABLE_EMAIL_VERIFICATION is on)
+export const requireVerifiedEmail = async (req: Request, res: Response, next: NextFunction) => {
+  if (!env.ENABLE_EMAIL_VERIFICATION) {
+    return next();
+  }
+
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "UNAUTHORIZED",
+          message: "Authentication required"
+        }
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { emailVerified: true }
+    });
+
+    if (!user?.emailVerified) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: "EMAIL_NOT_VERIFIED",
+          message: "Please verify your email address first"
+        }
+      });
+    }
+
+    next();
+  } catch (error) {
+    console.error("requireVerifiedEmail middleware error:", error);
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: "SERVER_ERROR",
+        message: "Internal server error"
+      }
+    });
+  }
+};
+
+// Hide the two-factor endpoints entirely unless ENABLE_2FA is on
+export const requireTwoFactorFeature = (req: Request, res: Response, next: NextFunction) => {
+  if (!env.ENABLE_2FA) {
+    return res.status(404).json({
+      success: false,
+      error: {
+        code: "NOT_FOUND",
+        message: "Route not found"
+      }
+    });
+  }
+
+  next();
+};
+
 // Listing ownership middleware
 export const isListingOwner = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -191,7 +389,10 @@ export const isListingOwner = async (req: Request, res: Response, next: NextFunc
       });
     }
 
-    if (listing.userId !== req.user.id && req.user.role !== 'ADMIN') {
+    if (
+      listing.userId !== req.user.id &&
+      !hasPermission(req.user.role, Permission.LISTINGS_MANAGE_ANY)
+    ) {
       return res.status(403).json({
         success: false,
         error: {
@@ -1,21 +1,48 @@
 import { Request, Response, NextFunction } from "express";
 import { body, validationResult } from "express-validator";
+import { getUsernameProblem } from "../utils/username.utils.js";
+
+// Shared password strength rules
+const passwordRule = (field: string) =>
+  body(field)
+    .isLength({ min: 8 })
+    .withMessage("Password must be at least 8 characters long")
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)[A-Za-z\d@$!%*?&]{8,}$/)
+    .withMessage("Password must contain at least one uppercase letter, one lowercase letter, and one number");
 
 export const validateRegistration = [
   body("email")
     .isEmail()
     .withMessage("Please enter a valid email address")
     .normalizeEmail(),
-  body("password")
-    .isLength({ min: 8 })
-    .withMessage("Password must be at least 8 characters long")
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)[A-Za-z\d@$!%*?&]{8,}$/)
-    .withMessage("Password must contain at least one uppercase letter, one lowercase letter, and one number"),
+  passwordRule("password"),
   body("name")
     .trim()
     .isLength({ min: 2 })
     .withMessage("Name must be at least 2 characters long"),
+  body("username")
+    .optional({ checkFalsy: true })
+    .trim()
+    .toLowerCase()
+    .custom((value: string) => {
+      const problem = getUsernameProblem(value);
+      if (problem) {
+        throw new Error(problem);
+      }
+      return true;
+    }),
+];
+
+export const validatePasswordResetRequest = [
+  body("email")
+    .isEmail()
+    .withMessage("Please enter a valid email address")
+    .normalizeEmail(),
+];
 
+export const validatePasswordReset = [
+  body("token").isString().notEmpty().withMessage("Reset token is required"),
+  passwordRule("password"),
 ];
 
 export const validateListing = [
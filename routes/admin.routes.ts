@@ -0,0 +1,54 @@
+import express from "express";
+import { authenticate, requirePermission } from "../middleware/auth.js";
+import { Permission } from "../types/enums.js";
+import {
+  updateUserRole,
+  deleteUserAccount,
+  setListingVisibility,
+  getReports,
+  getReportedConversation,
+  resolveReport,
+  getAuditLog,
+} from "../controllers/admin.controller.js";
+
+const router = express.Router();
+
+router.use(authenticate);
+
+router.put(
+  "/users/:id/role",
+  requirePermission(Permission.USERS_MANAGE_ROLES),
+  updateUserRole as unknown as express.RequestHandler
+);
+router.delete(
+  "/users/:id",
+  requirePermission(Permission.USERS_DELETE),
+  deleteUserAccount as unknown as express.RequestHandler
+);
+router.patch(
+  "/listings/:id/visibility",
+  requirePermission(Permission.LISTINGS_HIDE),
+  setListingVisibility as unknown as express.RequestHandler
+);
+router.get(
+  "/reports",
+  requirePermission(Permission.CONVERSATIONS_READ_REPORTED),
+  getReports as unknown as express.RequestHandler
+);
+router.get(
+  "/reports/:id/conversation",
+  requirePermission(Permission.CONVERSATIONS_READ_REPORTED),
+  getReportedConversation as unknown as express.RequestHandler
+);
+router.post(
+  "/reports/:id/resolve",
+  requirePermission(Permission.CONVERSATIONS_READ_REPORTED),
+  resolveReport as unknown as express.RequestHandler
+);
+router.get(
+  "/audit-log",
+  requirePermission(Permission.AUDIT_LOG_READ),
+  getAuditLog as unknown as express.RequestHandler
+);
+
+export default router;
@@ -1,7 +1,46 @@
 import express from "express";
-import { login, register, logout, getMe, refreshToken } from "../controllers/auth.controller.js";
-import { validateRegistration, validate } from "../middleware/validation.middleware.js";
-import { loginLimiter, authenticate } from "../middleware/auth.js";
+import {
+  login,
+  register,
+  logout,
+  logoutAll,
+  getMe,
+  refreshToken,
+  verifyEmail,
+  resendVerificationEmail,
+  requestPasswordReset,
+  resetPassword,
+} from "../controllers/auth.controller.js";
+import { getSessions, deleteSession } from "../controllers/session.controller.js";
+import {
+  setupTwoFactor,
+  activateTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  verifyTwoFactorLogin,
+} from "../controllers/twoFactor.controller.js";
+import {
+  getOidcProviders,
+  startOidcLogin,
+  completeOidcLogin,
+  startOidcLink,
+  completeOidcLink,
+  getIdentities,
+  unlinkIdentity,
+} from "../controllers/oidc.controller.js";
+import {
+  validateRegistration,
+  validatePasswordResetRequest,
+  validatePasswordReset,
+  validate,
+} from "../middleware/validation.middleware.js";
+import {
+  loginLimiter,
+  verificationEmailLimiter,
+  passwordResetLimiter,
+  requireTwoFactorFeature,
+  authenticate,
+} from "../middleware/auth.js";
 
 const router = express.Router();
 
@@ -9,9 +48,46 @@ const router = express.Router();
 router.post("/register", validateRegistration, validate, register);
 router.post("/login", loginLimiter, login);
 router.post("/refresh", refreshToken);
+router.post("/verify-email", verifyEmail);
+router.post(
+  "/password/forgot",
+  passwordResetLimiter,
+  validatePasswordResetRequest,
+  validate,
+  requestPasswordReset
+);
+router.post("/password/reset", validatePasswordReset, validate, resetPassword);
+router.post("/2fa/verify", requireTwoFactorFeature, loginLimiter, verifyTwoFactorLogin);
+router.get("/oidc/providers", getOidcProviders);
+router.get("/oidc/:provider/authorize", loginLimiter, startOidcLogin);
+router.post("/oidc/callback", loginLimiter, completeOidcLogin);
 
 // Protected routes
 router.post("/logout", authenticate, logout);
+router.post("/logout-all", authenticate, logoutAll);
 router.get("/me", authenticate, getMe);
+router.post(
+  "/verify-email/resend",
+  authenticate,
+  verificationEmailLimiter,
+  resendVerificationEmail
+);
+router.get("/sessions", authenticate, getSessions);
+router.delete("/sessions/:id", authenticate, deleteSession);
+router.get("/identities", authenticate, getIdentities);
+router.get("/oidc/:provider/link", authenticate, startOidcLink);
+router.post("/oidc/link/callback", authenticate, completeOidcLink);
+router.delete("/identities/:id", authenticate, unlinkIdentity);
+
+// Two-factor management
+router.post("/2fa/setup", requireTwoFactorFeature, authenticate, setupTwoFactor);
+router.post("/2fa/activate", requireTwoFactorFeature, authenticate, activateTwoFactor);
+router.post("/2fa/disable", requireTwoFactorFeature, authenticate, disableTwoFactor);
+router.post(
+  "/2fa/recovery-codes",
+  requireTwoFactorFeature,
+  authenticate,
+  regenerateRecoveryCodes
+);
 
 export default router;
@@ -1,300 +1,210 @@
 import express, { Request, Response } from "express";
-import { authenticate } from "../middleware/auth.js";
-import prisma from "../src/lib/prismaClient.js";
-import { Prisma } from "@prisma/client";
+import { ListingStatus } from "@prisma/client";
 import {
-  VehicleType,
-  FuelType,
-  TransmissionType,
-  Condition,
-} from "../types/enums.js";
+  authenticate,
+  isListingOwner,
+  optionalAuth,
+  requireVerifiedEmail,
+} from "../middleware/auth.js";
 import {
   upload,
   processImagesMiddleware,
-  processImage,
 } from "../middleware/upload.middleware.js";
+import { AuthRequest } from "../types/index.js";
+import { ListingTransition } from "../utils/listingLifecycle.utils.js";
+import { listingDetailFiltersSchema } from "../utils/listingFilters.utils.js";
+import { Coordinates, parseCoordinates } from "../utils/geo.utils.js";
+import {
+  ListingError,
+  ListingInput,
+  listingService,
+} from "../services/listing.service.js";
 
-// Extend Request type for authenticated requests
-interface AuthRequest extends Request {
-  user: {
-    id: string;
-    email: string;
-    username: string;
-    role: string;
-  };
-  processedImages?: Array<{
-    url: string;
-    order: number;
-  }>;
-}
+const router = express.Router();
 
-// Type for sorting options
-type SortOrder = "asc" | "desc";
+const listingErrorStatus: Record<ListingError["code"], number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  VALIDATION_ERROR: 400,
+  INVALID_TRANSITION: 409,
+};
+
+// Send a failed request in the listing response shape
+const sendError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof ListingError) {
+    const status = listingErrorStatus[error.code];
+    res.status(status).json({
+      success: false,
+      error: error.message,
+      ...(error.errors && { errors: error.errors }),
+      status,
+      data: null,
+    });
+    return;
+  }
 
-// Define valid sort fields
-const validSortFields = ["price", "createdAt", "favorites"] as const;
-type SortField = (typeof validSortFields)[number];
+  console.error(`${fallback}:`, error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : fallback,
+    status: 500,
+    data: null,
+  });
+};
 
-// Helper function to build orderBy object
-const buildOrderBy = (
-  sortBy?: string,
-  sortOrder?: string
-): Prisma.ListingOrderByWithRelationInput => {
-  const order: SortOrder = sortOrder?.toLowerCase() === "desc" ? "desc" : "asc";
+const getPagination = (req: Request, defaultLimit: number) => ({
+  page: Math.max(1, parseInt(req.query.page as string) || 1),
+  limit: Math.min(50, Math.max(1, parseInt(req.query.limit as string) || defaultLimit)),
+});
 
-  if (sortBy === "favorites") {
-    return {
-      favorites: {
-        _count: order,
-      },
-    };
+// Multipart bodies carry nested values as JSON strings
+const parseJsonField = <T>(value: unknown, field: string): T | undefined => {
+  if (value === undefined || value === "") {
+    return undefined;
   }
-
-  if (sortBy === "price") {
-    return { price: order };
+  if (typeof value !== "string") {
+    return value as T;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new ListingError("VALIDATION_ERROR", `Invalid JSON in ${field}`);
   }
-
-  // Default sort by createdAt
-  return { createdAt: "desc" };
 };
 
-// Helper function to validate request user
-const validateUser = (req: AuthRequest): string => {
-  const userId = req.user?.id;
-  if (!userId) {
-    throw new Error("Unauthorized: User not found");
+// A list may arrive as an array, a JSON array string or a single value
+const parseStringList = (value: unknown, field: string): string[] | undefined => {
+  if (typeof value === "string" && !value.trim().startsWith("[")) {
+    return [value];
   }
-  return userId;
+  return parseJsonField<string[]>(value, field);
 };
 
-import {
-  ListingCreateInput,
-  ListingUpdateInput,
-  ListingWithRelations,
-  ListingBase,
-  ListingDetails,
-} from "../types/shared.js";
+const parseNumber = (value: unknown) =>
+  value === undefined || value === "" ? undefined : parseFloat(value as string);
 
-const router = express.Router();
+const queryString = (value: unknown) =>
+  typeof value === "string" && value ? value : undefined;
 
-const formatListingResponse = (listing: any): ListingBase | null => {
-  if (!listing) return null;
-
-  const details: ListingDetails = {
-    vehicles: listing.vehicleDetails
-      ? {
-          vehicleType: listing.vehicleDetails.vehicleType,
-          make: listing.vehicleDetails.make,
-          model: listing.vehicleDetails.model,
-          year: listing.vehicleDetails.year,
-          // Add other vehicle-specific fields
-        }
-      : undefined,
-    realEstate: listing.realEstateDetails
-      ? {
-          propertyType: listing.realEstateDetails.propertyType,
-          size: listing.realEstateDetails.size,
-          bedrooms: listing.realEstateDetails.bedrooms,
-          // Add other real estate-specific fields
-        }
-      : undefined,
-  };
+// Detail filters arrive as nested query params, e.g.
+// ?vehicles[make]=Toyota&vehicles[minYear]=2015&realEstate[minBedrooms]=3
+const parseDetailFilters = (query: Request["query"]) => {
+  if (query.vehicles === undefined && query.realEstate === undefined) {
+    return undefined;
+  }
+  const parsed = listingDetailFiltersSchema.safeParse({
+    vehicles: query.vehicles,
+    realEstate: query.realEstate,
+  });
+  if (!parsed.success) {
+    throw new ListingError(
+      "VALIDATION_ERROR",
+      "Invalid filters",
+      parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+    );
+  }
+  return parsed.data;
+};
+
+// `near` is "lat,lng" or "me" (the viewer's profile location)
+const parseNear = (value: unknown): Coordinates | "me" | undefined => {
+  const near = queryString(value);
+  if (!near || near === "me") {
+    return near as "me" | undefined;
+  }
+  const coordinates = parseCoordinates(near);
+  if (!coordinates) {
+    throw new ListingError("VALIDATION_ERROR", 'near must be "lat,lng" or "me"');
+  }
+  return coordinates;
+};
+
+// Accepts `details` ({ vehicles, realEstate }) as well as the older
+// top-level `vehicleDetails` / `realEstateDetails` fields
+const parseListingInput = (body: Record<string, unknown>): ListingInput => {
+  const details = parseJsonField<ListingInput["details"]>(body.details, "details") ?? {};
+  const vehicles =
+    details.vehicles ??
+    parseJsonField<NonNullable<ListingInput["details"]>["vehicles"]>(
+      body.vehicleDetails,
+      "vehicleDetails"
+    );
+  const realEstate =
+    details.realEstate ??
+    parseJsonField<NonNullable<ListingInput["details"]>["realEstate"]>(
+      body.realEstateDetails,
+      "realEstateDetails"
+    );
 
   return {
-    id: listing.id,
-    title: listing.title,
-    description: listing.description,
-    price: listing.price,
-    category: {
-      mainCategory: listing.mainCategory,
-      subCategory: listing.subCategory,
-    },
-    location: listing.location,
-    images: listing.images?.map((img: any) => img.url) || [],
-    createdAt: listing.createdAt,
-    updatedAt: listing.updatedAt,
-    userId: listing.userId,
-    details,
-    listingAction: listing.listingAction,
-    status: listing.status,
+    title: body.title as string | undefined,
+    description: body.description as string | undefined,
+    price: parseNumber(body.price),
+    mainCategory: body.mainCategory as string | undefined,
+    subCategory: body.subCategory as string | undefined,
+    location: body.location as string | undefined,
+    country: body.country as string | undefined,
+    region: body.region as string | undefined,
+    city: body.city as string | undefined,
+    latitude: parseNumber(body.latitude),
+    longitude: parseNumber(body.longitude),
+    condition: body.condition as string | undefined,
+    listingAction: body.listingAction as string | undefined,
+    details: vehicles || realEstate ? { vehicles, realEstate } : undefined,
+    features: parseStringList(body.features, "features"),
+    attributes: parseJsonField<ListingInput["attributes"]>(body.attributes, "attributes"),
   };
 };
 
 // Public Routes
-router.get("/", async (req: Request, res: Response): Promise<void> => {
+router.get("/", optionalAuth, async (req: Request, res: Response): Promise<void> => {
   try {
-    const {
-      mainCategory,
-      subCategory,
-      sortBy,
-      sortOrder,
-      page = 1,
-      limit = 10,
-    } = req.query;
-
-    // Build where clause for filtering
-    const where: Prisma.ListingWhereInput = {};
-    if (mainCategory) {
-      where.mainCategory = mainCategory as string;
-    }
-    if (subCategory) {
-      where.subCategory = subCategory as string;
-    }
-
-    // Calculate pagination
-    const skip = (Number(page) - 1) * Number(limit);
-
-    // Get total count for pagination
-    const total = await prisma.listing.count({ where });
-
-    // Get listings with pagination, sorting, and filtering
-    const listings = await prisma.listing.findMany({
-      where,
-      take: Number(limit),
-      skip,
-      orderBy: buildOrderBy(sortBy as string, sortOrder as string),
-      include: {
-        images: true,
-        user: {
-          select: {
-            id: true,
-            username: true,
-            profilePicture: true,
-          },
-        },
-        favorites: true,
-        vehicleDetails: true,
-        realEstateDetails: true,
+    const data = await listingService.list(
+      {
+        mainCategory: queryString(req.query.mainCategory),
+        subCategory: queryString(req.query.subCategory),
+        filters: parseDetailFilters(req.query),
+        near: parseNear(req.query.near),
+        radiusKm: parseNumber(queryString(req.query.radius)),
+        cursor: queryString(req.query.cursor),
+        sortBy: queryString(req.query.sortBy),
+        sortOrder: queryString(req.query.sortOrder),
+        ...getPagination(req, 10),
       },
-    });
-
-    // Format listings for response
-    const formattedListings = listings.map((listing) =>
-      formatListingResponse(listing)
+      req.user?.id
     );
-
-    res.json({
-      success: true,
-      data: {
-        items: formattedListings,
-        total,
-        page: Number(page),
-        limit: Number(limit),
-        hasMore: total > Number(page) * Number(limit),
-      },
-      status: 200,
-    });
+    res.json({ success: true, data, status: 200 });
   } catch (error) {
-    console.error("Error fetching listings:", error);
-    res.status(500).json({
-      success: false,
-      error:
-        error instanceof Error ? error.message : "Failed to fetch listings",
-      status: 500,
-      data: null,
-    });
+    sendError(res, error, "Failed to fetch listings");
   }
 });
 
-router.get("/search", async (req: Request, res: Response): Promise<void> => {
+router.get("/search", optionalAuth, async (req: Request, res: Response): Promise<void> => {
   try {
-    const { query, category, minPrice, maxPrice } = req.query;
-
-    const where: Prisma.ListingWhereInput = {
-      status: "ACTIVE",
-      ...(query &&
-        typeof query === "string" && {
-          OR: [
-            { title: { contains: query, mode: "insensitive" } },
-            { description: { contains: query, mode: "insensitive" } },
-          ],
-        }),
-      ...(category && typeof category === "string" && { category }),
-      ...(minPrice || maxPrice
-        ? {
-            price: {
-              ...(minPrice &&
-                typeof minPrice === "string" && { gte: parseFloat(minPrice) }),
-              ...(maxPrice &&
-                typeof maxPrice === "string" && { lte: parseFloat(maxPrice) }),
-            },
-          }
-        : {}),
-    };
-
-    const [listings, total] = await Promise.all([
-      prisma.listing.findMany({
-        where,
-        include: {
-          user: {
-            select: {
-              id: true,
-              username: true,
-              profilePicture: true,
-            },
-          },
-          images: true,
-          favorites: true,
-        },
-        orderBy: { createdAt: "desc" },
-      }),
-      prisma.listing.count({ where }),
-    ]);
-
-    res.json({
-      success: true,
-      data: {
-        items: listings.map((listing) => formatListingResponse(listing)),
-        total,
-        page: parseInt(req.query.page as string) || 1,
-        limit: parseInt(req.query.limit as string) || 10,
-        hasMore: total > (parseInt(req.query.limit as string) || 10),
+    const data = await listingService.search(
+      {
+        query: queryString(req.query.query),
+        mainCategory: queryString(req.query.mainCategory) ?? queryString(req.query.category),
+        subCategory: queryString(req.query.subCategory),
+        minPrice: parseNumber(queryString(req.query.minPrice)),
+        maxPrice: parseNumber(queryString(req.query.maxPrice)),
+        filters: parseDetailFilters(req.query),
+        ...getPagination(req, 10),
       },
-      status: 200,
-    });
+      req.user?.id
+    );
+    res.json({ success: true, data, status: 200 });
   } catch (error) {
-    res.status(500).json({
-      success: false,
-      error:
-        error instanceof Error ? error.message : "Error searching listings",
-      status: 500,
-      data: null,
-    });
+    sendError(res, error, "Error searching listings");
   }
 });
 
-router.get("/trending", async (_req: Request, res: Response): Promise<void> => {
+router.get("/trending", optionalAuth, async (req: Request, res: Response): Promise<void> => {
   try {
-    const trendingListings = await prisma.listing.findMany({
-      where: { status: "ACTIVE" },
-      include: {
-        images: true,
-        _count: {
-          select: { favorites: true },
-        },
-      },
-      orderBy: {
-        favorites: {
-          _count: "desc",
-        },
-      },
-      take: 10,
-    });
-
-    res.json({
-      success: true,
-      data: { items: trendingListings },
-      status: 200,
-    });
+    const items = await listingService.trending(req.user?.id);
+    res.json({ success: true, data: { items }, status: 200 });
   } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error";
-    res.status(500).json({
-      success: false,
-      error: errorMessage,
-      status: 500,
-      data: null,
-    });
+    sendError(res, error, "Failed to fetch trending listings");
   }
 });
 
@@ -306,20 +216,7 @@ const handleAuthRoute = (
   handler: (req: AuthRequest, res: Response) => Promise<void>
 ) => {
   return async (req: Request, res: Response): Promise<void> => {
-    try {
-      // Cast request to AuthRequest since it's been authenticated
-      const authReq = req as AuthRequest;
-      await handler(authReq, res);
-    } catch (error) {
-      console.error("Auth route error:", error);
-      res.status(500).json({
-        success: false,
-        error:
-          error instanceof Error ? error.message : "An unknown error occurred",
-        status: 500,
-        data: null,
-      });
-    }
+    await handler(req as AuthRequest, res);
   };
 };
 
@@ -327,168 +224,31 @@ router.get(
   "/saved",
   handleAuthRoute(async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const userId = validateUser(req);
-      const savedListings = await prisma.favorite.findMany({
-        where: {
-          userId,
-        },
-        include: {
-          listing: {
-            include: {
-              images: true,
-              user: {
-                select: {
-                  id: true,
-                  username: true,
-                  profilePicture: true,
-                },
-              },
-              favorites: true,
-            },
-          },
-        },
-      });
-
-      const formattedListings = savedListings.map((favorite) =>
-        formatListingResponse(favorite.listing)
-      );
-
-      res.json({
-        success: true,
-        data: { items: formattedListings },
-        status: 200,
-      });
+      const items = await listingService.listFavorites(req.user.id);
+      res.json({ success: true, data: { items }, status: 200 });
     } catch (error) {
-      res.status(500).json({
-        success: false,
-        error:
-          error instanceof Error ? error.message : "An unknown error occurred",
-        status: 500,
-        data: null,
-      });
+      sendError(res, error, "Failed to fetch saved listings");
     }
   })
 );
 
 router.post(
   "/",
+  requireVerifiedEmail,
   upload.array("images", 10),
   processImagesMiddleware,
   handleAuthRoute(async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const userId = validateUser(req);
-      const {
-        title,
-        description,
-        price,
-        mainCategory,
-        subCategory,
-        location = "",
-        listingAction,
-        details,
-      } = req.body;
-
-      // Validate required fields
-      if (
-        !title ||
-        !description ||
-        !price ||
-        !location ||
-        !mainCategory ||
-        !subCategory
-      ) {
-        res.status(400).json({
-          success: false,
-          error: "Missing required fields",
-          status: 400,
-          data: null,
-        });
-        return;
-      }
-
-      // Get processed image URLs
-      const imageUrls = req.processedImages?.map((img) => img.url) || [];
-
-      // Parse details
-      const parsedDetails = JSON.parse(
-        typeof details === "string" ? details : JSON.stringify(details)
+      // `status: "DRAFT"` saves partial data; required fields are checked on publish
+      const listing = await listingService.create(
+        req.user.id,
+        parseListingInput(req.body),
+        req.processedImages || [],
+        { draft: req.body.status === ListingStatus.DRAFT, io: req.app.get("io") }
       );
-
-      // Create listing with images
-      const listing = await prisma.listing.create({
-        data: {
-          title,
-          description,
-          price: Number(price),
-          location,
-          category: mainCategory, // For backwards compatibility
-          mainCategory,
-          subCategory,
-          images: {
-            create: imageUrls.map((url, index) => ({
-              url,
-              order: index,
-            })),
-          },
-          userId,
-          listingAction,
-          vehicleDetails: parsedDetails.vehicles
-            ? {
-                create: {
-                  vehicleType: parsedDetails.vehicles.vehicleType,
-                  make: parsedDetails.vehicles.make,
-                  model: parsedDetails.vehicles.model,
-                  year: parsedDetails.vehicles.year,
-                  mileage: parsedDetails.vehicles.mileage,
-                  fuelType: parsedDetails.vehicles.fuelType,
-                  transmissionType: parsedDetails.vehicles.transmissionType,
-                  color: parsedDetails.vehicles.color,
-                  condition: parsedDetails.vehicles.condition,
-                },
-              }
-            : undefined,
-          realEstateDetails: parsedDetails.realEstate
-            ? {
-                create: {
-                  propertyType: parsedDetails.realEstate.propertyType,
-                  size: parsedDetails.realEstate.size,
-                  yearBuilt: parsedDetails.realEstate.yearBuilt,
-                  bedrooms: parsedDetails.realEstate.bedrooms,
-                  bathrooms: parsedDetails.realEstate.bathrooms,
-                  condition: parsedDetails.realEstate.condition,
-                },
-              }
-            : undefined,
-        },
-        include: {
-          images: true,
-          user: {
-            select: {
-              id: true,
-              username: true,
-              profilePicture: true,
-            },
-          },
-          favorites: true,
-          vehicleDetails: true,
-          realEstateDetails: true,
-        },
-      });
-
-      res.status(201).json({
-        success: true,
-        data: formatListingResponse(listing),
-        status: 201,
-      });
+      res.status(201).json({ success: true, data: listing, status: 201 });
     } catch (error) {
-      console.error("Error creating listing:", error);
-      res.status(500).json({
-        success: false,
-        error:
-          error instanceof Error ? error.message : "Failed to create listing",
-        status: 500,
-        data: null,
-      });
+      sendError(res, error, "Failed to create listing");
     }
   })
 );
@@ -497,53 +257,29 @@ router.get(
   "/user",
   handleAuthRoute(async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const { page = 1, limit = 12 } = req.query;
-      const skip = (Number(page) - 1) * Number(limit);
-
-      const userId = validateUser(req);
-
-      const listings = await prisma.listing.findMany({
-        where: {
-          userId,
-        },
-        include: {
-          user: true,
-          images: true,
-          favorites: true,
-        },
-        skip,
-        take: Number(limit),
-        orderBy: {
-          createdAt: "desc",
-        },
-      });
-
-      const total = await prisma.listing.count({
-        where: {
-          userId,
-        },
-      });
-
-      res.json({
-        success: true,
-        data: {
-          listings: listings.map((listing) => formatListingResponse(listing)),
-          total,
-          page: Number(page),
-          limit: Number(limit),
-          hasMore: total > Number(page) * Number(limit),
-        },
-        status: 200,
-      });
+      const { page, limit } = getPagination(req, 12);
+      const { items, ...rest } = await listingService.listByUser(req.user.id, page, limit);
+      res.json({ success: true, data: { listings: items, ...rest }, status: 200 });
+    } catch (error) {
+      sendError(res, error, "Failed to fetch user listings");
+    }
+  })
+);
+
+router.get(
+  "/drafts",
+  handleAuthRoute(async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { page, limit } = getPagination(req, 12);
+      const data = await listingService.listByUser(
+        req.user.id,
+        page,
+        limit,
+        ListingStatus.DRAFT
+      );
+      res.json({ success: true, data, status: 200 });
     } catch (error) {
-      console.error("Error fetching user listings:", error);
-      res.status(500).json({
-        success: false,
-        error: {
-          code: "SERVER_ERROR",
-          message: "An error occurred while fetching user listings",
-        },
-      });
+      sendError(res, error, "Failed to fetch drafts");
     }
   })
 );
@@ -552,331 +288,136 @@ router.get(
   "/favorites",
   handleAuthRoute(async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const userId = validateUser(req);
-      const favorites = await prisma.favorite.findMany({
-        where: {
-          userId,
-        },
-        include: {
-          listing: {
-            include: {
-              images: true,
-              user: true,
-              favorites: true,
-            },
-          },
-        },
-      });
-
-      res.json({
-        success: true,
-        data: {
-          favorites: favorites.map((fav) => ({
-            ...formatListingResponse(fav.listing),
-            favorite: true,
-          })),
-        },
-        status: 200,
-      });
+      const favorites = await listingService.listFavorites(req.user.id);
+      res.json({ success: true, data: { favorites }, status: 200 });
     } catch (error) {
-      console.error("Error fetching favorite listings:", error);
-      res.status(500).json({
-        success: false,
-        error: {
-          code: "SERVER_ERROR",
-          message: "An error occurred while fetching favorite listings",
-        },
-      });
+      sendError(res, error, "Failed to fetch favorite listings");
     }
   })
 );
 
-router.get("/:id", async (req: Request, res: Response): Promise<void> => {
-  try {
-    const listing = await prisma.listing.findUnique({
-      where: { id: req.params.id },
-      include: {
-        images: true,
-        user: {
-          select: {
-            id: true,
-            username: true,
-            profilePicture: true,
-          },
-        },
-        favorites: true,
-        vehicleDetails: true,
-        realEstateDetails: true,
-      },
-    });
+router.get(
+  "/:id",
+  handleAuthRoute(async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const listing = await listingService.getById(req.params.id, req.user);
+      res.json({ success: true, data: listing, status: 200 });
+    } catch (error) {
+      sendError(res, error, "Failed to fetch listing");
+    }
+  })
+);
 
-    if (!listing) {
-      res.status(404).json({
-        success: false,
-        error: "Listing not found",
-        status: 404,
-        data: null,
-      });
-      return;
+router.get(
+  "/:id/price-history",
+  handleAuthRoute(async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const data = await listingService.getPriceHistory(req.params.id, req.user);
+      res.json({ success: true, data, status: 200 });
+    } catch (error) {
+      sendError(res, error, "Failed to fetch price history");
     }
+  })
+);
 
-    const formattedListing = formatListingResponse(listing);
-    res.json({
-      success: true,
-      data: formattedListing,
-      status: 200,
-    });
-  } catch (error) {
-    console.error("Error fetching listing:", error);
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : "Failed to fetch listing",
-      status: 500,
-      data: null,
-    });
-  }
-});
+// Save or unsave a listing
+router.post(
+  "/:id/favorite",
+  handleAuthRoute(async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const listing = await listingService.toggleFavorite(req.params.id, req.user);
+      res.json({ success: true, data: listing, status: 200 });
+    } catch (error) {
+      sendError(res, error, "Failed to update favorite");
+    }
+  })
+);
+
+// Lifecycle transitions, e.g. POST /:id/mark-sold
+const transitionPaths: Record<string, ListingTransition> = {
+  publish: "publish",
+  "mark-sold": "markSold",
+  "mark-rented": "markRented",
+  archive: "archive",
+  relist: "relist",
+  renew: "renew",
+};
 
+for (const [path, transition] of Object.entries(transitionPaths)) {
+  router.post(
+    `/:id/${path}`,
+    isListingOwner,
+    handleAuthRoute(async (req: AuthRequest, res: Response): Promise<void> => {
+      try {
+        const listing = await listingService.transition(
+          req.params.id,
+          req.user,
+          transition,
+          req.app.get("io")
+        );
+        res.json({ success: true, data: listing, status: 200 });
+      } catch (error) {
+        sendError(res, error, "Failed to change listing status");
+      }
+    })
+  );
+}
+
+// Owner or LISTINGS_MANAGE_ANY; checked before any upload reaches R2
 router.put(
   "/:id",
+  isListingOwner,
   upload.array("images"),
   processImagesMiddleware,
   handleAuthRoute(async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const {
-        title,
-        description,
-        price,
-        mainCategory,
-        subCategory,
-        location = "",
-        features = [],
-        vehicleDetails,
-        realEstateDetails,
-        listingAction,
-        sellDescription,
-        rentDescription,
-      } = req.body;
-
-      const newImages = req.processedImages || [];
-      const existingImages = req.body.existingImages || [];
-
-      // First, delete removed images
-      await prisma.image.deleteMany({
-        where: {
-          listingId: req.params.id,
-          url: { notIn: existingImages },
-        },
-      });
-
-      // Update the listing
-      const listing = await prisma.listing.update({
-        where: { id: req.params.id },
-        data: {
-          title,
-          description,
-          price: parseFloat(price),
-          mainCategory,
-          subCategory,
-          location,
-          listingAction,
-          images: {
-            create: newImages.map((image: any, index: number) => ({
-              url: image.url,
-              order: existingImages.length + index,
-            })),
-          },
-          features: {
-            deleteMany: {},
-            create: features.map((feature: string) => ({
-              name: feature,
-              value: true,
-            })),
-          },
-          vehicleDetails: vehicleDetails
-            ? {
-                upsert: {
-                  create: {
-                    make: vehicleDetails.make,
-                    model: vehicleDetails.model,
-                    year: vehicleDetails.year,
-                    mileage: vehicleDetails.mileage,
-                    vehicleType:
-                      (vehicleDetails.vehicleType as VehicleType) ||
-                      VehicleType.OTHER,
-                    fuelType: vehicleDetails.fuelType
-                      ? (vehicleDetails.fuelType as FuelType)
-                      : null,
-                    transmissionType: vehicleDetails.transmissionType
-                      ? (vehicleDetails.transmissionType as TransmissionType)
-                      : null,
-                    color: vehicleDetails.color,
-                    condition: vehicleDetails.condition
-                      ? (vehicleDetails.condition as Condition)
-                      : null,
-                  },
-                  update: {
-                    make: vehicleDetails.make,
-                    model: vehicleDetails.model,
-                    year: vehicleDetails.year,
-                    mileage: vehicleDetails.mileage,
-                    vehicleType:
-                      (vehicleDetails.vehicleType as VehicleType) ||
-                      VehicleType.OTHER,
-                    fuelType: vehicleDetails.fuelType
-                      ? (vehicleDetails.fuelType as FuelType)
-                      : null,
-                    transmissionType: vehicleDetails.transmissionType
-                      ? (vehicleDetails.transmissionType as TransmissionType)
-                      : null,
-                    color: vehicleDetails.color,
-                    condition: vehicleDetails.condition
-                      ? (vehicleDetails.condition as Condition)
-                      : null,
-                  },
-                },
-              }
-            : undefined,
-          realEstateDetails: realEstateDetails
-            ? {
-                upsert: {
-                  create: {
-                    propertyType: realEstateDetails.propertyType || "OTHER",
-                    size: realEstateDetails.size,
-                    yearBuilt: realEstateDetails.yearBuilt,
-                    bedrooms: realEstateDetails.bedrooms,
-                    bathrooms: realEstateDetails.bathrooms,
-                    condition: realEstateDetails.condition
-                      ? (realEstateDetails.condition as Condition)
-                      : null,
-                  },
-                  update: {
-                    propertyType: realEstateDetails.propertyType || "OTHER",
-                    size: realEstateDetails.size,
-                    yearBuilt: realEstateDetails.yearBuilt,
-                    bedrooms: realEstateDetails.bedrooms,
-                    bathrooms: realEstateDetails.bathrooms,
-                    condition: realEstateDetails.condition
-                      ? (realEstateDetails.condition as Condition)
-                      : null,
-                  },
-                },
-              }
-            : undefined,
-        },
-        include: {
-          images: true,
-          user: {
-            select: {
-              id: true,
-              username: true,
-              profilePicture: true,
-            },
-          },
-          favorites: true,
-        },
-      });
-
-      res.json({
-        success: true,
-        data: formatListingResponse(listing),
-        status: 200,
-      });
+      const listing = await listingService.update(
+        req.params.id,
+        req.user,
+        parseListingInput(req.body),
+        parseStringList(req.body.existingImages, "existingImages"),
+        req.processedImages || [],
+        { io: req.app.get("io") }
+      );
+      res.json({ success: true, data: listing, status: 200 });
     } catch (error) {
-      res.status(500).json({
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
-        status: 500,
-        data: null,
-      });
+      sendError(res, error, "Failed to update listing");
     }
   })
 );
 
-router.delete(
+// Autosave: any subset of fields, plus images to append, on a draft
+router.patch(
   "/:id",
+  isListingOwner,
+  upload.array("images", 10),
+  processImagesMiddleware,
   handleAuthRoute(async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const userId = validateUser(req);
-
-      // Find listing
-      const listing = await prisma.listing.findUnique({
-        where: { id: req.params.id },
-        include: {
-          images: true,
-          favorites: true,
-          vehicleDetails: true,
-          realEstateDetails: true,
-        },
-      });
-
-      // Check if listing exists and belongs to user
-      if (!listing) {
-        res.status(404).json({
-          success: false,
-          error: "Listing not found",
-          status: 404,
-          data: null,
-        });
-        return;
-      }
-
-      if (listing.userId !== userId) {
-        res.status(403).json({
-          success: false,
-          error: "Not authorized to delete this listing",
-          status: 403,
-          data: null,
-        });
-        return;
-      }
+      const listing = await listingService.update(
+        req.params.id,
+        req.user,
+        parseListingInput(req.body),
+        parseStringList(req.body.existingImages, "existingImages"),
+        req.processedImages || [],
+        { draftOnly: true }
+      );
+      res.json({ success: true, data: listing, status: 200 });
+    } catch (error) {
+      sendError(res, error, "Failed to save draft");
+    }
+  })
+);
 
-      // Delete in a transaction to ensure atomicity
-      await prisma.$transaction(async (tx) => {
-        // Delete vehicle details if they exist
-        if (listing.vehicleDetails) {
-          await tx.vehicleDetails.delete({
-            where: { listingId: listing.id },
-          });
-        }
-
-        // Delete real estate details if they exist
-        if (listing.realEstateDetails) {
-          await tx.realEstateDetails.delete({
-            where: { listingId: listing.id },
-          });
-        }
-
-        // Delete favorites
-        await tx.favorite.deleteMany({
-          where: { listingId: listing.id },
-        });
-
-        // Delete images
-        await tx.image.deleteMany({
-          where: { listingId: listing.id },
-        });
-
-        // Delete the listing itself
-        await tx.listing.delete({
-          where: { id: listing.id },
-        });
-      });
-
-      res.json({
-        success: true,
-        data: null,
-        status: 200,
-      });
+router.delete(
+  "/:id",
+  isListingOwner,
+  handleAuthRoute(async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      await listingService.delete(req.params.id, req.user);
+      res.json({ success: true, data: null, status: 200 });
     } catch (error) {
-      console.error("Error deleting listing:", error);
-      res.status(500).json({
-        success: false,
-        error:
-          error instanceof Error ? error.message : "Failed to delete listing",
-        status: 500,
-        data: null,
-      });
+      sendError(res, error, "Failed to delete listing");
     }
   })
 );
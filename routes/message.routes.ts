@@ -1,17 +1,26 @@
 import express from "express";
-import { authenticate } from "../middleware/auth.js";
+import { authenticate, requireVerifiedEmail } from "../middleware/auth.js";
 import {
   sendMessage,
   getMessages,
   deleteMessage,
+  reportConversation,
 } from "../controllers/message.controller.js";
 
 const router = express.Router();
 
 router.use(authenticate);
 
-router.post("/", sendMessage as unknown as express.RequestHandler);
+router.post(
+  "/",
+  requireVerifiedEmail,
+  sendMessage as unknown as express.RequestHandler
+);
 router.get("/:conversationId", getMessages as unknown as express.RequestHandler);
+router.post(
+  "/:conversationId/report",
+  reportConversation as unknown as express.RequestHandler
+);
 router.delete("/:messageId", deleteMessage as unknown as express.RequestHandler);
 
 export default router;
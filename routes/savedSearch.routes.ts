@@ -0,0 +1,23 @@
+import express from "express";
+import { authenticate } from "../middleware/auth.js";
+import {
+  getSavedSearches,
+  getSavedSearch,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  runSavedSearch,
+} from "../controllers/savedSearch.controller.js";
+
+const router = express.Router();
+
+router.use(authenticate);
+
+router.get("/", getSavedSearches as unknown as express.RequestHandler);
+router.post("/", createSavedSearch as unknown as express.RequestHandler);
+router.get("/:id", getSavedSearch as unknown as express.RequestHandler);
+router.patch("/:id", updateSavedSearch as unknown as express.RequestHandler);
+router.delete("/:id", deleteSavedSearch as unknown as express.RequestHandler);
+router.post("/:id/run", runSavedSearch as unknown as express.RequestHandler);
+
+export default router;
@@ -1,28 +1,22 @@
 import express from "express";
-import { authenticate } from "../middleware/auth.js";
+import { authenticate, usernameCheckLimiter } from "../middleware/auth.js";
 import {
+   checkUsernameAvailability,
+   getPublicProfile,
    updateProfile,
    getUserProfile,
    getUserListings,
    getUserSettings,
    updateUserSettings,
+   deleteUser,
+   exportUserData,
 } from "../controllers/user.controller.js";
 import {
    upload,
    processImage,
    uploadToR2,
 } from "../middleware/upload.middleware.js";
-
-// Define AuthRequest type for type safety
-interface AuthRequest extends express.Request {
-   user: {
-      id: string;
-      email: string;
-      username: string;
-      role: string;
-   };
-   file?: Express.Multer.File;
-}
+import { AuthRequest } from "../types/index.js";
 
 const router = express.Router();
 
@@ -62,27 +56,42 @@ const processProfilePicture = asyncHandler(
    }
 );
 
-// ✅ Ensure all routes require authentication
-router.use(authenticate);
+// ✅ Public: check whether a username is free
+router.get(
+   "/username-availability",
+   usernameCheckLimiter,
+   checkUsernameAvailability
+);
 
 // ✅ Get user profile
-router.get("/profile", asyncHandler(getUserProfile));
+router.get("/profile", authenticate, asyncHandler(getUserProfile));
 
 // ✅ Update profile (optional profile picture upload)
 router.put(
    "/profile",
+   authenticate,
    upload.single("profilePicture"),
    processProfilePicture,
    asyncHandler(updateProfile)
 );
 
 // ✅ Get user settings
-router.get("/settings", asyncHandler(getUserSettings));
+router.get("/settings", authenticate, asyncHandler(getUserSettings));
 
-// ✅ Update settings
-router.post("/settings", asyncHandler(updateUserSettings));
+// ✅ Update settings (partial, deep-merged; POST kept for existing clients)
+router.patch("/settings", authenticate, asyncHandler(updateUserSettings));
+router.post("/settings", authenticate, asyncHandler(updateUserSettings));
 
 // Get user's listings
-router.get("/listings", asyncHandler(getUserListings));
+router.get("/listings", authenticate, asyncHandler(getUserListings));
+
+// ✅ Export all of the user's data
+router.get("/me/export", authenticate, asyncHandler(exportUserData));
+
+// ✅ Delete account (password re-confirmation, grace period before purge)
+router.delete("/me", authenticate, asyncHandler(deleteUser));
+
+// ✅ Public seller profile; keep last so it never shadows the routes above
+router.get("/:username", getPublicProfile);
 
 export default router;
@@ -0,0 +1,183 @@
+/**
+ * Parse the measurement text set aside in `legacyMeasurements` when the
+ * vehicle and real-estate measurements became numeric columns, and report
+ * every value that cannot be parsed.
+ *
+ *   npm run migrate:measurements             # write parsed values
+ *   npm run migrate:measurements -- --dry-run
+ *
+ * Parsed values move to the typed columns (mileage in km, size in m², the
+ * written unit kept for display). Unparsed ones stay in legacyMeasurements,
+ * so the script can be run again once they have been corrected.
+ */
+import { Prisma } from "@prisma/client";
+import prisma from "../src/lib/prismaClient.js";
+import {
+   parseAreaText,
+   parseDistanceText,
+   parseIntegerText,
+   toKilometres,
+   toSquareMetres,
+} from "../utils/measurements.utils.js";
+
+const BATCH_SIZE = 500;
+const dryRun = process.argv.includes("--dry-run");
+
+// Column values for one legacy field, or null when the text is unusable
+type FieldParser = (text: string) => Record<string, unknown> | null;
+
+const yearBetween =
+   (column: string, min: number, max: number): FieldParser =>
+   (text) => {
+      const year = parseIntegerText(text);
+      return year !== null && year >= min && year <= max ? { [column]: year } : null;
+   };
+
+const count =
+   (column: string): FieldParser =>
+   (text) => {
+      const value = parseIntegerText(text);
+      return value !== null && value >= 0 ? { [column]: value } : null;
+   };
+
+const vehicleFields: Record<string, FieldParser> = {
+   year: yearBetween("year", 1900, 2100),
+   mileage: (text) => {
+      const parsed = parseDistanceText(text);
+      return (
+         parsed && {
+            mileage: toKilometres(parsed.value, parsed.unit),
+            mileageUnit: parsed.unit,
+         }
+      );
+   },
+};
+
+const realEstateFields: Record<string, FieldParser> = {
+   size: (text) => {
+      const parsed = parseAreaText(text);
+      return (
+         parsed && { size: toSquareMetres(parsed.value, parsed.unit), sizeUnit: parsed.unit }
+      );
+   },
+   yearBuilt: yearBetween("yearBuilt", 1800, 2100),
+   bedrooms: count("bedrooms"),
+   bathrooms: count("bathrooms"),
+};
+
+interface LegacyRow {
+   id: string;
+   listingId: string;
+   legacyMeasurements: Prisma.JsonValue;
+}
+
+interface Failure {
+   table: string;
+   id: string;
+   listingId: string;
+   field: string;
+   value: string;
+}
+
+const migrateTable = async (
+   table: string,
+   fields: Record<string, FieldParser>,
+   findBatch: (afterId?: string) => Promise<LegacyRow[]>,
+   save: (id: string, data: Record<string, unknown>) => Promise<unknown>
+) => {
+   const failures: Failure[] = [];
+   let migrated = 0;
+   let afterId: string | undefined;
+
+   for (;;) {
+      const rows = await findBatch(afterId);
+      if (rows.length === 0) {
+         break;
+      }
+      afterId = rows[rows.length - 1].id;
+
+      for (const row of rows) {
+         const legacy = (row.legacyMeasurements ?? {}) as Record<string, unknown>;
+         const remaining: Record<string, unknown> = {};
+         let data: Record<string, unknown> = {};
+
+         for (const [field, value] of Object.entries(legacy)) {
+            const parsed = fields[field]?.(String(value));
+            if (parsed) {
+               data = { ...data, ...parsed };
+            } else {
+               remaining[field] = value;
+               failures.push({ table, id: row.id, listingId: row.listingId, field, value: String(value) });
+            }
+         }
+
+         const done = Object.keys(remaining).length === 0;
+         if (done) {
+            migrated++;
+         }
+         if (!dryRun) {
+            await save(row.id, {
+               ...data,
+               legacyMeasurements: done ? Prisma.DbNull : remaining,
+            });
+         }
+      }
+   }
+
+   return { migrated, failures };
+};
+
+const pending = { legacyMeasurements: { not: Prisma.DbNull } };
+
+const migrateMeasurements = async () => {
+   const vehicles = await migrateTable(
+      "VehicleDetails",
+      vehicleFields,
+      (afterId) =>
+         prisma.vehicleDetails.findMany({
+            where: { ...pending, ...(afterId && { id: { gt: afterId } }) },
+            orderBy: { id: "asc" },
+            take: BATCH_SIZE,
+            select: { id: true, listingId: true, legacyMeasurements: true },
+         }),
+      (id, data) =>
+         prisma.vehicleDetails.update({
+            where: { id },
+            data: data as Prisma.VehicleDetailsUncheckedUpdateInput,
+         })
+   );
+
+   const realEstate = await migrateTable(
+      "RealEstateDetails",
+      realEstateFields,
+      (afterId) =>
+         prisma.realEstateDetails.findMany({
+            where: { ...pending, ...(afterId && { id: { gt: afterId } }) },
+            orderBy: { id: "asc" },
+            take: BATCH_SIZE,
+            select: { id: true, listingId: true, legacyMeasurements: true },
+         }),
+      (id, data) =>
+         prisma.realEstateDetails.update({
+            where: { id },
+            data: data as Prisma.RealEstateDetailsUncheckedUpdateInput,
+         })
+   );
+
+   const failures = [...vehicles.failures, ...realEstate.failures];
+   const verb = dryRun ? "would be migrated" : "migrated";
+   console.log(`✅ ${vehicles.migrated} vehicle and ${realEstate.migrated} real-estate rows ${verb}`);
+
+   if (failures.length > 0) {
+      console.log(`⚠️  ${failures.length} value(s) could not be parsed and were left in legacyMeasurements:`);
+      console.table(failures);
+      process.exitCode = 1;
+   }
+};
+
+migrateMeasurements()
+   .catch((err) => {
+      console.error("❌ Measurement migration failed:", err.message || err);
+      process.exitCode = 1;
+   })
+   .finally(() => prisma.$disconnect());
@@ -0,0 +1,170 @@
+/**
+ * A local OpenID Connect issuer for developing and testing social login
+ * without network access. It signs every authorization request in as one
+ * configurable user and enforces PKCE like a real provider.
+ *
+ *   npm run mock:oidc
+ *   OIDC_PROVIDERS='[{"name":"mock","issuer":"http://localhost:4010","clientId":"tijara-local"}]'
+ *
+ * Append email=, email_verified= or sub= to the authorization URL to sign in
+ * as someone else. Tests start it in-process with startMockOidcIssuer().
+ */
+import crypto from "crypto";
+import { AddressInfo } from "net";
+import { pathToFileURL } from "url";
+import express from "express";
+import jwt from "jsonwebtoken";
+
+export interface MockOidcIssuerOptions {
+   port?: number; // 0 picks a free port
+   issuer?: string; // defaults to http://localhost:<port>
+   clientId?: string;
+   defaultEmail?: string;
+}
+
+export interface MockOidcIssuer {
+   issuer: string;
+   clientId: string;
+   close: () => Promise<void>;
+}
+
+interface PendingCode {
+   clientId: string;
+   redirectUri: string;
+   codeChallenge: string;
+   nonce?: string;
+   claims: { sub: string; email: string; email_verified: boolean; name: string };
+   expiresAt: number;
+}
+
+const kid = "mock-key";
+
+export const startMockOidcIssuer = async ({
+   port = 0,
+   clientId = "tijara-local",
+   defaultEmail = "mock.user@example.com",
+   ...options
+}: MockOidcIssuerOptions = {}): Promise<MockOidcIssuer> => {
+   const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", {
+      modulusLength: 2048,
+   });
+   const codes = new Map<string, PendingCode>();
+   // Known once the server is listening
+   let issuer = "";
+
+   const app = express();
+   app.use(express.urlencoded({ extended: false }));
+
+   app.get("/.well-known/openid-configuration", (_req, res) => {
+      res.json({
+         issuer,
+         authorization_endpoint: `${issuer}/authorize`,
+         token_endpoint: `${issuer}/token`,
+         jwks_uri: `${issuer}/jwks`,
+         response_types_supported: ["code"],
+         subject_types_supported: ["public"],
+         id_token_signing_alg_values_supported: ["RS256"],
+         code_challenge_methods_supported: ["S256"],
+      });
+   });
+
+   app.get("/jwks", (_req, res) => {
+      res.json({
+         keys: [{ ...publicKey.export({ format: "jwk" }), kid, use: "sig", alg: "RS256" }],
+      });
+   });
+
+   // Skips the consent screen and redirects straight back with a code
+   app.get("/authorize", (req, res) => {
+      const query = req.query as Record<string, string | undefined>;
+
+      if (query.client_id !== clientId || !query.redirect_uri || !query.state) {
+         res.status(400).send("client_id, redirect_uri and state are required");
+         return;
+      }
+      if (query.code_challenge_method !== "S256" || !query.code_challenge) {
+         res.status(400).send("PKCE with S256 is required");
+         return;
+      }
+
+      const email = query.email ?? defaultEmail;
+      const code = crypto.randomBytes(16).toString("hex");
+      codes.set(code, {
+         clientId: query.client_id,
+         redirectUri: query.redirect_uri,
+         codeChallenge: query.code_challenge,
+         nonce: query.nonce,
+         claims: {
+            sub: query.sub ?? `mock-${crypto.createHash("sha256").update(email).digest("hex").slice(0, 16)}`,
+            email,
+            email_verified: query.email_verified !== "false",
+            name: email.split("@")[0],
+         },
+         expiresAt: Date.now() + 60 * 1000,
+      });
+
+      const redirect = new URL(query.redirect_uri);
+      redirect.searchParams.set("code", code);
+      redirect.searchParams.set("state", query.state);
+      res.redirect(redirect.toString());
+   });
+
+   app.post("/token", (req, res) => {
+      const { grant_type, code, redirect_uri, client_id, code_verifier } = req.body;
+      const pending = codes.get(code);
+      codes.delete(code);
+
+      const challenge = code_verifier
+         ? crypto.createHash("sha256").update(code_verifier).digest("base64url")
+         : undefined;
+
+      if (
+         grant_type !== "authorization_code" ||
+         !pending ||
+         pending.expiresAt < Date.now() ||
+         pending.clientId !== client_id ||
+         pending.redirectUri !== redirect_uri ||
+         pending.codeChallenge !== challenge
+      ) {
+         res.status(400).json({ error: "invalid_grant" });
+         return;
+      }
+
+      const idToken = jwt.sign(
+         { ...pending.claims, ...(pending.nonce && { nonce: pending.nonce }) },
+         privateKey,
+         { algorithm: "RS256", keyid: kid, issuer, audience: client_id, expiresIn: "5m" }
+      );
+
+      res.json({
+         access_token: crypto.randomBytes(16).toString("hex"),
+         token_type: "Bearer",
+         expires_in: 300,
+         id_token: idToken,
+      });
+   });
+
+   const server = app.listen(port);
+   await new Promise((resolve) => server.once("listening", resolve));
+   issuer = options.issuer ?? `http://localhost:${(server.address() as AddressInfo).port}`;
+
+   return {
+      issuer,
+      clientId,
+      close: () =>
+         new Promise<void>((resolve) => {
+            server.closeAllConnections();
+            server.close(() => resolve());
+         }),
+   };
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+   const { issuer, clientId } = await startMockOidcIssuer({
+      port: Number(process.env.MOCK_OIDC_PORT ?? 4010),
+      issuer: process.env.MOCK_OIDC_ISSUER,
+      clientId: process.env.MOCK_OIDC_CLIENT_ID,
+      defaultEmail: process.env.MOCK_OIDC_EMAIL,
+   });
+   console.log(`🔑 Mock OIDC issuer running at ${issuer} (client_id: ${clientId})`);
+}
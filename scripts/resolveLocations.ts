@@ -0,0 +1,107 @@
+/**
+ * Fill the structured location columns of listings and users that only
+ * have free-text `location`, using the offline gazetteer.
+ *
+ *   npm run resolve:locations
+ *   npm run resolve:locations -- --dry-run
+ *
+ * Rows that already have coordinates are skipped, so the script can be run
+ * again after adding places to the gazetteer. Text it cannot resolve is
+ * listed at the end.
+ */
+import prisma from "../src/lib/prismaClient.js";
+import { resolveLocation } from "../utils/gazetteer.utils.js";
+
+const BATCH_SIZE = 500;
+const dryRun = process.argv.includes("--dry-run");
+
+interface Row {
+   id: string;
+   location: string | null;
+}
+
+const resolveRows = async (
+   findBatch: (afterId?: string) => Promise<Row[]>,
+   save: (id: string, data: NonNullable<ReturnType<typeof resolveLocation>>) => Promise<unknown>
+) => {
+   const unresolved = new Map<string, number>();
+   let resolved = 0;
+   let afterId: string | undefined;
+
+   for (;;) {
+      const rows = await findBatch(afterId);
+      if (rows.length === 0) {
+         break;
+      }
+      afterId = rows[rows.length - 1].id;
+
+      for (const row of rows) {
+         const place = row.location ? resolveLocation(row.location) : null;
+         if (!place) {
+            const text = row.location?.trim() ?? "";
+            unresolved.set(text, (unresolved.get(text) ?? 0) + 1);
+            continue;
+         }
+         resolved++;
+         if (!dryRun) {
+            await save(row.id, place);
+         }
+      }
+   }
+
+   return { resolved, unresolved };
+};
+
+// Only rows with text to resolve and no coordinates yet
+const pending = (afterId?: string) => ({
+   latitude: null,
+   location: { not: "" },
+   ...(afterId && { id: { gt: afterId } }),
+});
+
+const resolveLocations = async () => {
+   const listings = await resolveRows(
+      (afterId) =>
+         prisma.listing.findMany({
+            where: pending(afterId),
+            orderBy: { id: "asc" },
+            take: BATCH_SIZE,
+            select: { id: true, location: true },
+         }),
+      (id, place) => prisma.listing.update({ where: { id }, data: place })
+   );
+
+   const users = await resolveRows(
+      (afterId) =>
+         prisma.user.findMany({
+            where: pending(afterId),
+            orderBy: { id: "asc" },
+            take: BATCH_SIZE,
+            select: { id: true, location: true },
+         }),
+      (id, place) => prisma.user.update({ where: { id }, data: place })
+   );
+
+   const verb = dryRun ? "would be resolved" : "resolved";
+   console.log(`✅ ${listings.resolved} listing and ${users.resolved} user locations ${verb}`);
+
+   const unresolved = new Map(listings.unresolved);
+   users.unresolved.forEach((count, text) =>
+      unresolved.set(text, (unresolved.get(text) ?? 0) + count)
+   );
+   if (unresolved.size > 0) {
+      console.log("⚠️  Locations the gazetteer does not know:");
+      console.table(
+         [...unresolved]
+            .sort((a, b) => b[1] - a[1])
+            .map(([location, rows]) => ({ location, rows }))
+      );
+   }
+};
+
+resolveLocations()
+   .catch((err) => {
+      console.error("❌ Location resolution failed:", err.message || err);
+      process.exitCode = 1;
+   })
+   .finally(() => prisma.$disconnect());
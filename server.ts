@@ -11,6 +11,9 @@ import dotenv from "dotenv";
 import morgan from "morgan";
 import errorHandler from "./middleware/errorHandler.js";
 import { getDirname } from "./utils/path.utils.js";
+import { startAccountPurgeJob } from "./jobs/accountPurge.job.js";
+import { startListingExpiryJob } from "./jobs/listingExpiry.job.js";
+import { startSavedSearchDigestJob } from "./jobs/savedSearchDigest.job.js";
 const __dirname = getDirname(import.meta.url);
 
 // Load environment variables
@@ -128,6 +131,8 @@ import userRoutes from "./routes/user.routes.js";
 import messageRoutes from "./routes/message.routes.js";
 import uploadRoutes from "./routes/uploads.js";
 import notificationRoutes from "./routes/notification.routes.js";
+import adminRoutes from "./routes/admin.routes.js";
+import savedSearchRoutes from "./routes/savedSearch.routes.js";
 
 // API routes
 app.use("/api/auth", authRoutes);
@@ -136,6 +141,8 @@ app.use("/api/users", userRoutes);
 app.use("/api/messages", messageRoutes);
 app.use("/api/uploads", uploadRoutes);
 app.use("/api/notifications", notificationRoutes);
+app.use("/api/admin", adminRoutes);
+app.use("/api/saved-searches", savedSearchRoutes);
 
 // Error handling middleware
 app.use(errorHandler);
@@ -198,6 +205,11 @@ async function startServer() {
       console.log(`🚀 Server running on port ${port}`);
       console.log("Environment:", process.env.NODE_ENV);
     });
+
+    // Background jobs
+    startAccountPurgeJob();
+    startListingExpiryJob();
+    startSavedSearchDigestJob();
   } catch (error) {
     console.error("❌ Failed to start server:", error);
     process.exit(1);
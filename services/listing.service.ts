@@ -0,0 +1,1352 @@
+import {
+  AreaUnit,
+  DistanceUnit,
+  ListingStatus,
+  Prisma,
+  PrismaClient,
+} from "@prisma/client";
+import { Server } from "socket.io";
+import prisma from "../src/lib/prismaClient.js";
+import { deleteFromR2 } from "../config/cloudflareR2.js";
+import { createNotification } from "../utils/notification.utils.js";
+import {
+  LISTING_TRANSITIONS,
+  ListingTransition,
+  VIEWABLE_LISTING_STATUSES,
+  canTransition,
+  transitionTimestamps,
+} from "../utils/listingLifecycle.utils.js";
+import {
+  AreaSortField,
+  ListingArea,
+  ListingDetailFilters,
+  ListingSearchCriteria,
+  browsableListingWhere,
+  buildDetailFiltersWhere,
+  buildSearchWhere,
+  countListingMatches,
+  countListingValues,
+  findListingsInArea,
+  findTextMatches,
+  publicListingWhere,
+  toPrefixTsQuery,
+} from "../utils/listingFilters.utils.js";
+import { hasPermission } from "../config/permissions.js";
+import { getListingExpiry } from "../config/listingLifetime.js";
+import {
+  CursorSort,
+  cursorOrderBy,
+  cursorPaginate,
+  cursorWhere,
+  decodeCursor,
+  paginate,
+  takePage,
+} from "../utils/pagination.utils.js";
+import {
+  Coordinates,
+  placeErrors,
+  placeFields,
+  publicCoordinate,
+} from "../utils/geo.utils.js";
+import {
+  fromKilometres,
+  fromSquareMetres,
+  parseAreaUnit,
+  parseDistanceUnit,
+  parseNumberText,
+  toKilometres,
+  toSquareMetres,
+} from "../utils/measurements.utils.js";
+import {
+  Condition,
+  FuelType,
+  ListingCategory,
+  NotificationType,
+  Permission,
+  TransmissionType,
+  VehicleType,
+} from "../types/enums.js";
+import { AuthPrincipal } from "../types/index.js";
+import { SavedSearchService } from "./savedSearch.service.js";
+import {
+  ListingBase,
+  ListingDetails,
+  Location,
+  ProcessedImage,
+  RealEstateDetails,
+  VehicleDetails,
+} from "../types/shared.js";
+
+export type ListingErrorCode =
+  | "NOT_FOUND"
+  | "FORBIDDEN"
+  | "VALIDATION_ERROR"
+  | "INVALID_TRANSITION";
+
+export class ListingError extends Error {
+  constructor(
+    public code: ListingErrorCode,
+    message: string,
+    public errors?: string[]
+  ) {
+    super(message);
+    this.name = "ListingError";
+  }
+}
+
+// Measurements may arrive as numbers or numeric text ("120,000"); units as
+// the enum value or a common spelling ("km", "sq ft")
+type MeasurementInput = number | string | null;
+
+export type VehicleInput = Omit<
+  Partial<VehicleDetails>,
+  "year" | "mileage" | "mileageUnit"
+> & {
+  year?: MeasurementInput;
+  mileage?: MeasurementInput;
+  mileageUnit?: string | null;
+};
+
+export type RealEstateInput = Omit<
+  Partial<RealEstateDetails>,
+  "size" | "sizeUnit" | "yearBuilt" | "bedrooms" | "bathrooms"
+> & {
+  size?: MeasurementInput;
+  sizeUnit?: string | null;
+  yearBuilt?: MeasurementInput;
+  bedrooms?: MeasurementInput;
+  bathrooms?: MeasurementInput;
+};
+
+// Fields a seller supplies when creating or editing a listing
+export interface ListingInput {
+  title?: string;
+  description?: string;
+  price?: number;
+  mainCategory?: string;
+  subCategory?: string;
+  location?: string;
+  // Structured location; resolved from `location` when left out
+  country?: string;
+  region?: string;
+  city?: string;
+  latitude?: number;
+  longitude?: number;
+  condition?: string;
+  listingAction?: string;
+  // Drafts may carry incomplete detail records
+  details?: {
+    vehicles?: VehicleInput;
+    realEstate?: RealEstateInput;
+  };
+  features?: string[];
+  attributes?: { name: string; value: string }[];
+}
+
+export interface ListingQuery {
+  mainCategory?: string;
+  subCategory?: string;
+  filters?: ListingDetailFilters;
+  // Only listings within radiusKm; "me" is the viewer's profile location
+  near?: Coordinates | "me";
+  radiusKm?: number;
+  sortBy?: string;
+  sortOrder?: string;
+  // Takes precedence over `page`
+  cursor?: string;
+  page: number;
+  limit: number;
+}
+
+export const DEFAULT_RADIUS_KM = 25;
+export const MAX_RADIUS_KM = 500;
+
+const VEHICLE_FACETS = [
+  "vehicleType",
+  "make",
+  "model",
+  "fuelType",
+  "transmissionType",
+  "condition",
+] as const;
+const REAL_ESTATE_FACETS = ["propertyType", "condition", "bedrooms", "bathrooms"] as const;
+
+// The filter behind each real-estate facet; vehicle facets share their
+// filter's name
+const REAL_ESTATE_FACET_FILTERS = {
+  propertyType: "propertyType",
+  condition: "condition",
+  bedrooms: "minBedrooms",
+  bathrooms: "minBathrooms",
+} as const;
+
+const MAX_FACET_VALUES = 50;
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface ListingFacets {
+  vehicles?: Record<(typeof VEHICLE_FACETS)[number], FacetCount[]>;
+  realEstate?: Record<(typeof REAL_ESTATE_FACETS)[number], FacetCount[]>;
+}
+
+export interface ListingSearchQuery extends ListingSearchCriteria {
+  page: number;
+  limit: number;
+}
+
+/**
+ * Everything a listing response needs. Only the viewer's own favorite is
+ * loaded (to flag whether they saved it); the total comes from `_count`.
+ */
+const listingInclude = (viewerId?: string) =>
+  ({
+    user: { select: { id: true, username: true, profilePicture: true } },
+    images: { orderBy: { order: "asc" } },
+    vehicleDetails: true,
+    realEstateDetails: true,
+    features: true,
+    attributes: true,
+    favorites: { where: { userId: viewerId ?? "" }, select: { userId: true } },
+    _count: { select: { favorites: true } },
+  }) satisfies Prisma.ListingInclude;
+
+type ListingWithRelations = Prisma.ListingGetPayload<{
+  include: ReturnType<typeof listingInclude>;
+}>;
+
+export interface ListingResponse extends ListingBase {
+  condition: string | null;
+  seller: {
+    id: string;
+    username: string;
+    profilePicture: string | null;
+  };
+  features: string[];
+  attributes: { name: string; value: string }[];
+  favoritesCount: number;
+  locationDetails: Location;
+  // Only on searches near a point
+  distanceKm?: number;
+}
+
+// Column sorts page by cursor; favorites and distance only by page number
+const listingCursorSort = (
+  sortBy?: string,
+  sortOrder?: string
+): CursorSort<"createdAt" | "price"> | null => {
+  if (sortBy === "favorites" || sortBy === "distance") {
+    return null;
+  }
+  if (sortBy === "price") {
+    return { field: "price", direction: sortOrder?.toLowerCase() === "desc" ? "desc" : "asc" };
+  }
+  return { field: "createdAt", direction: "desc" };
+};
+
+const buildOrderBy = (
+  sortBy?: string,
+  sortOrder?: string
+): Prisma.ListingOrderByWithRelationInput[] => {
+  const sort = listingCursorSort(sortBy, sortOrder);
+  if (sort) {
+    return cursorOrderBy(sort);
+  }
+  const order = sortOrder?.toLowerCase() === "desc" ? "desc" : "asc";
+  return [{ favorites: { _count: order } }, { id: order }];
+};
+
+// Browsable listings in the requested categories
+const browseWhere = (query: ListingQuery): Prisma.ListingWhereInput => ({
+  ...browsableListingWhere,
+  ...(query.mainCategory && { mainCategory: query.mainCategory }),
+  ...(query.subCategory && { subCategory: query.subCategory }),
+});
+
+// The sort a `cursor` continues and its decoded position
+const listingCursor = ({ cursor, sortBy, sortOrder }: ListingQuery) => {
+  const sort = listingCursorSort(sortBy, sortOrder);
+  const after = cursor ? decodeCursor(cursor) : null;
+  if (cursor && (!sort || !after)) {
+    throw new ListingError(
+      "VALIDATION_ERROR",
+      sort ? "Invalid cursor" : "This sort pages by page number only"
+    );
+  }
+  return { sort, after };
+};
+
+/**
+ * The one listing response shape. `favorite` is only present when the
+ * request is authenticated.
+ */
+export const serializeListing = (
+  listing: ListingWithRelations,
+  viewerId?: string
+): ListingResponse => {
+  const vehicle = listing.vehicleDetails;
+  const realEstate = listing.realEstateDetails;
+
+  const details: ListingDetails = {
+    vehicles: vehicle
+      ? {
+          vehicleType: vehicle.vehicleType as VehicleDetails["vehicleType"],
+          make: vehicle.make,
+          model: vehicle.model,
+          year: vehicle.year,
+          mileage:
+            vehicle.mileage === null
+              ? null
+              : fromKilometres(vehicle.mileage, vehicle.mileageUnit),
+          mileageUnit: vehicle.mileageUnit,
+          fuelType: vehicle.fuelType,
+          transmissionType: vehicle.transmissionType,
+          color: vehicle.color,
+          condition: vehicle.condition,
+        }
+      : undefined,
+    realEstate: realEstate
+      ? {
+          propertyType: realEstate.propertyType as RealEstateDetails["propertyType"],
+          size:
+            realEstate.size === null
+              ? null
+              : fromSquareMetres(realEstate.size, realEstate.sizeUnit),
+          sizeUnit: realEstate.sizeUnit,
+          yearBuilt: realEstate.yearBuilt,
+          bedrooms: realEstate.bedrooms,
+          bathrooms: realEstate.bathrooms,
+          condition: realEstate.condition,
+        }
+      : undefined,
+  };
+
+  return {
+    id: listing.id,
+    title: listing.title,
+    description: listing.description ?? "",
+    price: listing.price,
+    category: {
+      mainCategory: listing.mainCategory as ListingBase["category"]["mainCategory"],
+      subCategory: listing.subCategory as ListingBase["category"]["subCategory"],
+    },
+    location: listing.location,
+    locationDetails: {
+      address: listing.location,
+      city: listing.city,
+      region: listing.region,
+      country: listing.country,
+      latitude: publicCoordinate(listing.latitude),
+      longitude: publicCoordinate(listing.longitude),
+    },
+    condition: listing.condition,
+    images: listing.images.map((image) => image.url),
+    createdAt: listing.createdAt,
+    updatedAt: listing.updatedAt,
+    userId: listing.userId,
+    seller: listing.user,
+    details,
+    features: listing.features
+      .filter((feature) => feature.value)
+      .map((feature) => feature.name),
+    attributes: listing.attributes.map(({ name, value }) => ({ name, value })),
+    listingAction: listing.listingAction as ListingBase["listingAction"],
+    status: listing.status,
+    favoritesCount: listing._count.favorites,
+    ...(viewerId && {
+      favorite: listing.favorites.some((favorite) => favorite.userId === viewerId),
+    }),
+  };
+};
+
+// Not sent: undefined; blank: null (clears the field); unreadable: NaN
+const toNumber = (value: MeasurementInput | undefined) => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === null || value === "") {
+    return null;
+  }
+  return typeof value === "number" ? value : (parseNumberText(value) ?? NaN);
+};
+
+const measurementErrors = (details: ListingInput["details"]): string[] => {
+  const errors: string[] = [];
+  const vehicle = details?.vehicles;
+  const realEstate = details?.realEstate;
+  const latestYear = new Date().getFullYear() + 1;
+
+  const check = (
+    value: MeasurementInput | undefined,
+    isValid: (value: number) => boolean,
+    message: string
+  ) => {
+    const number = toNumber(value);
+    if (number !== undefined && number !== null && (isNaN(number) || !isValid(number))) {
+      errors.push(message);
+    }
+  };
+  const isCount = (value: number) => Number.isInteger(value) && value >= 0;
+
+  check(
+    vehicle?.year,
+    (year) => Number.isInteger(year) && year >= 1900 && year <= latestYear,
+    `Vehicle year must be between 1900 and ${latestYear}`
+  );
+  check(vehicle?.mileage, (mileage) => mileage >= 0, "Mileage must be a positive number");
+  if (vehicle?.mileageUnit && !parseDistanceUnit(vehicle.mileageUnit)) {
+    errors.push("Mileage unit must be KM or MILES");
+  }
+  check(realEstate?.size, (size) => size > 0, "Size must be a positive number");
+  if (realEstate?.sizeUnit && !parseAreaUnit(realEstate.sizeUnit)) {
+    errors.push("Size unit must be SQM or SQFT");
+  }
+  check(
+    realEstate?.yearBuilt,
+    (year) => Number.isInteger(year) && year >= 1800 && year <= latestYear,
+    `Year built must be between 1800 and ${latestYear}`
+  );
+  check(realEstate?.bedrooms, isCount, "Bedrooms must be a whole number");
+  check(realEstate?.bathrooms, isCount, "Bathrooms must be a whole number");
+
+  return errors;
+};
+
+// Checks only the fields that were supplied, so drafts can be partial
+export const validateListingFields = (data: ListingInput): string[] => {
+  const errors: string[] = [];
+
+  if (data.price !== undefined && (isNaN(data.price) || data.price < 0)) {
+    errors.push("Price must be a positive number");
+  }
+
+  return [...errors, ...placeErrors(data), ...measurementErrors(data.details)];
+};
+
+/**
+ * Required fields for a listing buyers can see. Drafts skip this until
+ * they are published; detail records saved from a draft must be complete.
+ */
+export const validateListingData = (data: ListingInput): string[] => {
+  const errors: string[] = [];
+
+  if (!data.title) {
+    errors.push("Title is required");
+  }
+  if (!data.description) {
+    errors.push("Description is required");
+  }
+  if (data.price === undefined || isNaN(data.price) || data.price <= 0) {
+    errors.push("Valid price is required");
+  }
+  if (!data.mainCategory) {
+    errors.push("Main category is required");
+  }
+  if (!data.subCategory) {
+    errors.push("Sub category is required");
+  }
+  if (!data.location) {
+    errors.push("Location is required");
+  }
+
+  const vehicle = data.details?.vehicles;
+  if (vehicle && (!vehicle.make || !vehicle.model || !vehicle.year)) {
+    errors.push("Vehicle make, model and year are required");
+  }
+
+  return [...errors, ...validateListingFields(data)];
+};
+
+// What the owner-side operations load before changing a listing
+const manageableSelect = {
+  userId: true,
+  status: true,
+  publishedAt: true,
+  title: true,
+  description: true,
+  price: true,
+  mainCategory: true,
+  subCategory: true,
+  location: true,
+  images: { select: { id: true, url: true } },
+  vehicleDetails: true,
+  realEstateDetails: true,
+} satisfies Prisma.ListingSelect;
+
+type StoredListing = Prisma.ListingGetPayload<{ select: typeof manageableSelect }>;
+
+const storedListingInput = (listing: StoredListing): ListingInput => ({
+  ...listing,
+  description: listing.description ?? undefined,
+  details: {
+    vehicles: (listing.vehicleDetails as VehicleInput | null) ?? undefined,
+    realEstate: (listing.realEstateDetails as RealEstateInput | null) ?? undefined,
+  },
+});
+
+const sentFields = <T extends object>(fields: T | undefined) =>
+  Object.fromEntries(
+    Object.entries(fields ?? {}).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+
+// The listing as it will be once `input` is saved over it
+const mergeListingInput = (listing: StoredListing, input: ListingInput): ListingInput => {
+  const stored = storedListingInput(listing);
+  const vehicles = input.details?.vehicles;
+  const realEstate = input.details?.realEstate;
+
+  return {
+    ...stored,
+    ...sentFields(input),
+    details: {
+      vehicles: vehicles
+        ? { ...stored.details?.vehicles, ...sentFields(vehicles) }
+        : stored.details?.vehicles,
+      realEstate: realEstate
+        ? { ...stored.details?.realEstate, ...sentFields(realEstate) }
+        : stored.details?.realEstate,
+    },
+  };
+};
+
+// Unsent fields stay undefined so a partial save never clears them; an
+// empty value clears an optional field
+const optional = <T>(value: string | null | undefined) =>
+  value === undefined ? undefined : ((value || null) as T | null);
+
+// Input is validated first, so units parse and numbers are readable.
+// Mileage and size are stored in km and m²; a value sent without its unit
+// is read in `currentUnit`, the unit already on the record.
+const vehicleData = (vehicle: VehicleInput, currentUnit: DistanceUnit = DistanceUnit.KM) => {
+  const mileageUnit = vehicle.mileageUnit
+    ? (parseDistanceUnit(vehicle.mileageUnit) ?? undefined)
+    : undefined;
+  const mileage = toNumber(vehicle.mileage);
+
+  return {
+    vehicleType: optional<VehicleType>(vehicle.vehicleType) ?? undefined,
+    make: vehicle.make,
+    model: vehicle.model,
+    year: toNumber(vehicle.year),
+    mileage: mileage == null ? mileage : toKilometres(mileage, mileageUnit ?? currentUnit),
+    mileageUnit,
+    fuelType: optional<FuelType>(vehicle.fuelType),
+    transmissionType: optional<TransmissionType>(vehicle.transmissionType),
+    color: vehicle.color,
+    condition: optional<Condition>(vehicle.condition),
+  };
+};
+
+// A new record needs its required columns; drafts may leave them blank
+const newVehicleData = (vehicle: VehicleInput) => ({
+  ...vehicleData(vehicle),
+  vehicleType: (vehicle.vehicleType as VehicleType) || VehicleType.OTHER,
+  make: vehicle.make ?? "",
+  model: vehicle.model ?? "",
+});
+
+const realEstateData = (realEstate: RealEstateInput, currentUnit: AreaUnit = AreaUnit.SQM) => {
+  const sizeUnit = realEstate.sizeUnit
+    ? (parseAreaUnit(realEstate.sizeUnit) ?? undefined)
+    : undefined;
+  const size = toNumber(realEstate.size);
+
+  return {
+    propertyType: realEstate.propertyType || undefined,
+    size: size == null ? size : toSquareMetres(size, sizeUnit ?? currentUnit),
+    sizeUnit,
+    yearBuilt: toNumber(realEstate.yearBuilt),
+    bedrooms: toNumber(realEstate.bedrooms),
+    bathrooms: toNumber(realEstate.bathrooms),
+    condition: realEstate.condition,
+  };
+};
+
+const newRealEstateData = (realEstate: RealEstateInput) => ({
+  ...realEstateData(realEstate),
+  propertyType: realEstate.propertyType || "OTHER",
+});
+
+// Best effort: a failed R2 delete only leaves an orphaned object behind
+const deleteImageObjects = async (urls: string[]) => {
+  const results = await Promise.allSettled(urls.map((url) => deleteFromR2(url)));
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      console.error(`Failed to delete ${urls[index]} from R2:`, result.reason);
+    }
+  });
+};
+
+const featuresData = (features: string[]) =>
+  features.map((name) => ({ name, value: true }));
+
+export class ListingService {
+  constructor(
+    private db: PrismaClient = prisma,
+    private savedSearches: SavedSearchService = new SavedSearchService(db)
+  ) {}
+
+  // New ACTIVE listings alert matching saved searches; never fails the caller
+  private async matchSavedSearches(listingId: string, io?: Server) {
+    await this.savedSearches
+      .matchListing(listingId, io)
+      .catch((error) => console.error("Saved search matching error:", error));
+  }
+
+  /**
+   * Browse with category, detail and distance filters. `facets` counts the
+   * results each filter value would return; a facet's own selection is left
+   * out of its counts so the alternatives stay visible. With `near`, items
+   * carry their distance and `sortBy: "distance"` puts the closest first.
+   */
+  async list(query: ListingQuery, viewerId?: string) {
+    if (query.near) {
+      const origin = query.near === "me" ? await this.viewerLocation(viewerId) : query.near;
+      return this.listInArea(
+        query,
+        { origin, radiusKm: query.radiusKm ?? DEFAULT_RADIUS_KM },
+        viewerId
+      );
+    }
+
+    const where: Prisma.ListingWhereInput = {
+      AND: [browseWhere(query), buildDetailFiltersWhere(query.filters)],
+    };
+    const { sort, after } = listingCursor(query);
+
+    const [rows, total, facets] = await Promise.all([
+      this.db.listing.findMany({
+        where: after && sort ? { AND: [where, cursorWhere(sort, after)] } : where,
+        orderBy: buildOrderBy(query.sortBy, query.sortOrder),
+        skip: after ? undefined : (query.page - 1) * query.limit,
+        take: query.limit + 1,
+        include: listingInclude(viewerId),
+      }),
+      this.db.listing.count({ where }),
+      this.facets(query),
+    ]);
+    const page = takePage(rows, query.limit, sort);
+
+    return {
+      ...cursorPaginate(
+        { ...page, items: page.items.map((listing) => serializeListing(listing, viewerId)) },
+        total,
+        query.limit,
+        after ? undefined : query.page
+      ),
+      facets,
+    };
+  }
+
+  private async viewerLocation(viewerId?: string): Promise<Coordinates> {
+    const viewer = viewerId
+      ? await this.db.user.findUnique({
+          where: { id: viewerId },
+          select: { latitude: true, longitude: true },
+        })
+      : null;
+    if (viewer?.latitude == null || viewer.longitude == null) {
+      throw new ListingError(
+        "VALIDATION_ERROR",
+        "Set a location on your profile to search near you"
+      );
+    }
+    return { latitude: viewer.latitude, longitude: viewer.longitude };
+  }
+
+  /**
+   * `list` within a radius. The distance check, sort, count and facets run
+   * in SQL on the listings' public coordinates, so no id list is passed
+   * between queries however many listings the area holds.
+   */
+  private async listInArea(query: ListingQuery, area: ListingArea, viewerId?: string) {
+    if (!(area.radiusKm > 0 && area.radiusKm <= MAX_RADIUS_KM)) {
+      throw new ListingError(
+        "VALIDATION_ERROR",
+        `Radius must be greater than 0 and at most ${MAX_RADIUS_KM} km`
+      );
+    }
+
+    const { sort, after } = listingCursor(query);
+    const order: CursorSort<AreaSortField> = sort ?? {
+      field: query.sortBy === "distance" ? "distance" : "favorites",
+      direction:
+        query.sortBy !== "distance" && query.sortOrder?.toLowerCase() === "desc" ? "desc" : "asc",
+    };
+    const criteria = {
+      mainCategory: query.mainCategory,
+      subCategory: query.subCategory,
+      filters: query.filters,
+    };
+
+    const [rows, total, facets] = await Promise.all([
+      findListingsInArea(this.db, area, {
+        criteria,
+        sort: order,
+        after,
+        limit: query.limit + 1,
+        offset: after ? 0 : (query.page - 1) * query.limit,
+      }),
+      countListingMatches(this.db, { criteria, area }),
+      this.facets(query, area),
+    ]);
+    const page = takePage(rows, query.limit, sort);
+
+    const distances = new Map(page.items.map((row) => [row.id, row.distance]));
+    const listings = await this.db.listing.findMany({
+      where: { id: { in: [...distances.keys()] } },
+      include: listingInclude(viewerId),
+    });
+    const ids = [...distances.keys()];
+    listings.sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id));
+
+    const items = listings.map((listing) => ({
+      ...serializeListing(listing, viewerId),
+      distanceKm: Math.round(distances.get(listing.id)! * 10) / 10,
+    }));
+    return {
+      ...cursorPaginate({ ...page, items }, total, query.limit, after ? undefined : query.page),
+      facets,
+    };
+  }
+
+  // Facets for the categories being browsed or filtered on
+  private async facets(query: ListingQuery, area?: ListingArea): Promise<ListingFacets> {
+    const { mainCategory, filters } = query;
+    const withoutFilter = (group: keyof ListingDetailFilters, key: string) => {
+      const { [key]: _removed, ...rest } = (filters?.[group] ?? {}) as Record<string, unknown>;
+      return { ...filters, [group]: rest } as ListingDetailFilters;
+    };
+    const criteria = (reduced: ListingDetailFilters) => ({
+      mainCategory: query.mainCategory,
+      subCategory: query.subCategory,
+      filters: reduced,
+    });
+    const listingWhere = (reduced: ListingDetailFilters): Prisma.ListingWhereInput => ({
+      AND: [browseWhere(query), buildDetailFiltersWhere(reduced)],
+    });
+
+    const toCounts = (rows: { value: unknown; count: number }[]): FacetCount[] =>
+      rows
+        .filter((row) => row.value !== null)
+        .map((row) => ({ value: String(row.value), count: row.count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, MAX_FACET_VALUES);
+
+    const facets: ListingFacets = {};
+
+    if (mainCategory === ListingCategory.VEHICLES || filters?.vehicles) {
+      const counts = await Promise.all(
+        VEHICLE_FACETS.map(async (field) => {
+          const reduced = withoutFilter("vehicles", field);
+          if (area) {
+            return toCounts(
+              await countListingValues(
+                this.db,
+                { criteria: criteria(reduced), area },
+                { detail: "vehicles", field }
+              )
+            );
+          }
+          const rows = await this.db.vehicleDetails.groupBy({
+            by: [field],
+            where: { listing: listingWhere(reduced) },
+            _count: { _all: true },
+          });
+          return toCounts(rows.map((row) => ({ value: row[field], count: row._count._all })));
+        })
+      );
+      facets.vehicles = Object.fromEntries(
+        VEHICLE_FACETS.map((field, index) => [field, counts[index]])
+      ) as ListingFacets["vehicles"];
+    }
+
+    if (mainCategory === ListingCategory.REAL_ESTATE || filters?.realEstate) {
+      const counts = await Promise.all(
+        REAL_ESTATE_FACETS.map(async (field) => {
+          const reduced = withoutFilter("realEstate", REAL_ESTATE_FACET_FILTERS[field]);
+          if (area) {
+            return toCounts(
+              await countListingValues(
+                this.db,
+                { criteria: criteria(reduced), area },
+                { detail: "realEstate", field }
+              )
+            );
+          }
+          const rows = await this.db.realEstateDetails.groupBy({
+            by: [field],
+            where: { listing: listingWhere(reduced) },
+            _count: { _all: true },
+          });
+          return toCounts(rows.map((row) => ({ value: row[field], count: row._count._all })));
+        })
+      );
+      facets.realEstate = Object.fromEntries(
+        REAL_ESTATE_FACETS.map((field, index) => [field, counts[index]])
+      ) as ListingFacets["realEstate"];
+    }
+
+    return facets;
+  }
+
+  /**
+   * Full-text search ranked by relevance. Text matches are filtered by the
+   * remaining criteria, ranked, counted and paged in SQL. Without search
+   * text results are newest first.
+   */
+  async search(query: ListingSearchQuery, viewerId?: string) {
+    const tsQuery = query.query ? toPrefixTsQuery(query.query) : null;
+
+    if (!tsQuery) {
+      const where = buildSearchWhere(query);
+      const [listings, total] = await Promise.all([
+        this.db.listing.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          skip: (query.page - 1) * query.limit,
+          take: query.limit,
+          include: listingInclude(viewerId),
+        }),
+        this.db.listing.count({ where }),
+      ]);
+
+      return paginate(
+        listings.map((listing) => serializeListing(listing, viewerId)),
+        total,
+        query.page,
+        query.limit
+      );
+    }
+
+    const [pageIds, total] = await Promise.all([
+      findTextMatches(this.db, tsQuery, {
+        criteria: query,
+        limit: query.limit,
+        offset: (query.page - 1) * query.limit,
+      }),
+      countListingMatches(this.db, { criteria: query, tsQuery }),
+    ]);
+    const listings = await this.db.listing.findMany({
+      where: { id: { in: pageIds } },
+      include: listingInclude(viewerId),
+    });
+    listings.sort((a, b) => pageIds.indexOf(a.id) - pageIds.indexOf(b.id));
+
+    return paginate(
+      listings.map((listing) => serializeListing(listing, viewerId)),
+      total,
+      query.page,
+      query.limit
+    );
+  }
+
+  // Most favorited active listings
+  async trending(viewerId?: string, take = 10) {
+    const listings = await this.db.listing.findMany({
+      where: browsableListingWhere,
+      orderBy: { favorites: { _count: "desc" } },
+      take,
+      include: listingInclude(viewerId),
+    });
+
+    return listings.map((listing) => serializeListing(listing, viewerId));
+  }
+
+  // Fetch one listing as `viewer` may see it
+  async getById(id: string, viewer?: AuthPrincipal) {
+    const listing = await this.db.listing.findFirst({
+      where: { id, user: { deletionRequestedAt: null } },
+      include: listingInclude(viewer?.id),
+    });
+
+    this.assertVisible(listing, viewer);
+    return serializeListing(listing, viewer?.id);
+  }
+
+  /**
+   * Hidden listings and listings outside the viewable states stay visible
+   * to their owner and to moderators; everyone else gets NOT_FOUND.
+   */
+  private assertVisible<
+    T extends { userId: string; hiddenAt: Date | null; status: ListingStatus },
+  >(listing: T | null, viewer?: AuthPrincipal): asserts listing is T {
+    if (!listing) {
+      throw new ListingError("NOT_FOUND", "Listing not found");
+    }
+
+    const isRestricted =
+      listing.hiddenAt !== null || !VIEWABLE_LISTING_STATUSES.includes(listing.status);
+    const canSeeRestricted =
+      listing.userId === viewer?.id ||
+      (viewer && hasPermission(viewer.role, Permission.LISTINGS_HIDE));
+
+    if (isRestricted && !canSeeRestricted) {
+      throw new ListingError("NOT_FOUND", "Listing not found");
+    }
+  }
+
+  // Price changes since publication, oldest first
+  async getPriceHistory(id: string, viewer?: AuthPrincipal) {
+    const listing = await this.db.listing.findFirst({
+      where: { id, user: { deletionRequestedAt: null } },
+      select: {
+        userId: true,
+        hiddenAt: true,
+        status: true,
+        price: true,
+        priceHistory: {
+          orderBy: { changedAt: "asc" },
+          select: { oldPrice: true, newPrice: true, changedAt: true },
+        },
+      },
+    });
+
+    this.assertVisible(listing, viewer);
+    return { currentPrice: listing.price, items: listing.priceHistory };
+  }
+
+  async listByUser(
+    userId: string,
+    page: number,
+    limit: number,
+    status?: ListingStatus
+  ) {
+    const where: Prisma.ListingWhereInput = { userId, ...(status && { status }) };
+
+    const [listings, total] = await Promise.all([
+      this.db.listing.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: listingInclude(userId),
+      }),
+      this.db.listing.count({ where }),
+    ]);
+
+    return paginate(
+      listings.map((listing) => serializeListing(listing, userId)),
+      total,
+      page,
+      limit
+    );
+  }
+
+  // Listings the user has favorited, most recently saved first
+  async listFavorites(userId: string) {
+    const favorites = await this.db.favorite.findMany({
+      where: { userId, listing: publicListingWhere },
+      orderBy: { createdAt: "desc" },
+      include: { listing: { include: listingInclude(userId) } },
+    });
+
+    return favorites.map((favorite) => serializeListing(favorite.listing, userId));
+  }
+
+  /**
+   * Create a listing. With `draft` it is saved as DRAFT and only the
+   * supplied fields are checked; blanks are filled in until publish.
+   */
+  async create(
+    userId: string,
+    input: ListingInput,
+    images: ProcessedImage[],
+    { draft = false, io }: { draft?: boolean; io?: Server } = {}
+  ) {
+    const errors = draft ? validateListingFields(input) : validateListingData(input);
+    if (errors.length > 0) {
+      throw new ListingError("VALIDATION_ERROR", "Validation failed", errors);
+    }
+
+    const mainCategory = input.mainCategory ?? "";
+    const listing = await this.db.listing.create({
+      data: {
+        ...(draft
+          ? { status: ListingStatus.DRAFT }
+          : {
+              status: ListingStatus.ACTIVE,
+              publishedAt: new Date(),
+              expiresAt: getListingExpiry(mainCategory),
+            }),
+        title: input.title ?? "",
+        description: input.description,
+        price: input.price ?? 0,
+        category: mainCategory, // For backwards compatibility
+        mainCategory,
+        subCategory: input.subCategory ?? "",
+        location: input.location ?? "",
+        ...placeFields(input),
+        condition: input.condition,
+        listingAction: input.listingAction,
+        userId,
+        images: {
+          create: images.map((image, index) => ({ url: image.url, order: index })),
+        },
+        vehicleDetails: input.details?.vehicles
+          ? { create: newVehicleData(input.details.vehicles) }
+          : undefined,
+        realEstateDetails: input.details?.realEstate
+          ? { create: newRealEstateData(input.details.realEstate) }
+          : undefined,
+        features: input.features
+          ? { create: featuresData(input.features) }
+          : undefined,
+        attributes: input.attributes ? { create: input.attributes } : undefined,
+      },
+      include: listingInclude(userId),
+    });
+
+    if (!draft) {
+      await createNotification({
+        userId,
+        type: NotificationType.LISTING_CREATED,
+        message: `Your listing "${listing.title}" has been created successfully.`,
+        relatedListingId: listing.id,
+      }).catch((error) => console.error("Listing created notification error:", error));
+      await this.matchSavedSearches(listing.id, io);
+    }
+
+    return serializeListing(listing, userId);
+  }
+
+  /**
+   * Load a listing `actor` is allowed to modify: their own, or any listing
+   * when they hold LISTINGS_MANAGE_ANY.
+   */
+  private async findManageable(id: string, actor: AuthPrincipal) {
+    const listing = await this.db.listing.findUnique({
+      where: { id },
+      select: manageableSelect,
+    });
+
+    if (!listing) {
+      throw new ListingError("NOT_FOUND", "Listing not found");
+    }
+    if (
+      listing.userId !== actor.id &&
+      !hasPermission(actor.role, Permission.LISTINGS_MANAGE_ANY)
+    ) {
+      throw new ListingError("FORBIDDEN", "You don't have permission to modify this listing");
+    }
+    return listing;
+  }
+
+  /**
+   * Apply a partial edit. When `keepImageUrls` is given, images of this
+   * listing not in it are dropped (rows and R2 objects); `newImages` are
+   * appended after the kept ones; detail records are upserted and
+   * features/attributes replaced only when supplied. `draftOnly` is the
+   * autosave path and refuses listings that are no longer drafts. Price
+   * changes on published listings are recorded in the price history, and
+   * drops are pushed to favoriters over `io`.
+   */
+  async update(
+    id: string,
+    actor: AuthPrincipal,
+    input: ListingInput,
+    keepImageUrls: string[] | undefined,
+    newImages: ProcessedImage[],
+    { draftOnly = false, io }: { draftOnly?: boolean; io?: Server } = {}
+  ) {
+    const discardUploadsAndThrow = async (error: unknown): Promise<never> => {
+      // Nothing will reference the objects that were just uploaded
+      await deleteImageObjects(newImages.map((image) => image.url));
+      throw error;
+    };
+
+    const existing = await this.findManageable(id, actor).catch(discardUploadsAndThrow);
+
+    if (draftOnly && existing.status !== ListingStatus.DRAFT) {
+      await discardUploadsAndThrow(
+        new ListingError("INVALID_TRANSITION", "Only drafts can be autosaved")
+      );
+    }
+
+    // Drafts may stay partial; anything buyers can see must still pass the
+    // publish rules once the edit is applied
+    const errors =
+      existing.status === ListingStatus.DRAFT
+        ? validateListingFields(input)
+        : validateListingData(mergeListingInput(existing, input));
+    if (errors.length > 0) {
+      await discardUploadsAndThrow(
+        new ListingError("VALIDATION_ERROR", "Validation failed", errors)
+      );
+    }
+
+    const removedImages = keepImageUrls
+      ? existing.images.filter((image) => !keepImageUrls.includes(image.url))
+      : [];
+    const keptCount = existing.images.length - removedImages.length;
+    const vehicles = input.details?.vehicles;
+    const realEstate = input.details?.realEstate;
+    const priceChanged =
+      existing.status !== ListingStatus.DRAFT &&
+      input.price !== undefined &&
+      input.price !== existing.price;
+
+    const listing = await this.db
+      .$transaction(async (tx) => {
+        if (priceChanged) {
+          await tx.priceHistory.create({
+            data: { listingId: id, oldPrice: existing.price, newPrice: input.price! },
+          });
+        }
+
+        await tx.image.deleteMany({
+          where: { listingId: id, id: { in: removedImages.map((image) => image.id) } },
+        });
+
+        return tx.listing.update({
+          where: { id },
+          data: {
+            title: input.title,
+            description: input.description,
+            price: input.price,
+            mainCategory: input.mainCategory,
+            subCategory: input.subCategory,
+            location: input.location,
+            ...placeFields(input),
+            condition: input.condition,
+            listingAction: input.listingAction,
+            images: {
+              create: newImages.map((image, index) => ({
+                url: image.url,
+                order: keptCount + index,
+              })),
+            },
+            features: input.features
+              ? { deleteMany: {}, create: featuresData(input.features) }
+              : undefined,
+            attributes: input.attributes
+              ? { deleteMany: {}, create: input.attributes }
+              : undefined,
+            vehicleDetails: vehicles
+              ? {
+                  upsert: {
+                    create: newVehicleData(vehicles),
+                    update: vehicleData(vehicles, existing.vehicleDetails?.mileageUnit),
+                  },
+                }
+              : undefined,
+            realEstateDetails: realEstate
+              ? {
+                  upsert: {
+                    create: newRealEstateData(realEstate),
+                    update: realEstateData(realEstate, existing.realEstateDetails?.sizeUnit),
+                  },
+                }
+              : undefined,
+          },
+          include: listingInclude(actor.id),
+        });
+      })
+      .catch(discardUploadsAndThrow);
+
+    await deleteImageObjects(removedImages.map((image) => image.url));
+
+    if (priceChanged && input.price! < existing.price) {
+      await this.notifyPriceDrop(listing, existing.price, io).catch((error) =>
+        console.error("Price drop notification error:", error)
+      );
+    }
+
+    return serializeListing(listing, actor.id);
+  }
+
+  /**
+   * Delete a listing and its child rows in one transaction. Image objects
+   * are removed from R2 only after the commit.
+   */
+  async delete(id: string, actor: AuthPrincipal) {
+    const listing = await this.findManageable(id, actor);
+
+    const byListing = { where: { listingId: id } };
+    await this.db.$transaction([
+      this.db.vehicleDetails.deleteMany(byListing),
+      this.db.realEstateDetails.deleteMany(byListing),
+      this.db.favorite.deleteMany(byListing),
+      this.db.image.deleteMany(byListing),
+      this.db.attribute.deleteMany(byListing),
+      this.db.feature.deleteMany(byListing),
+      this.db.listing.delete({ where: { id } }),
+    ]);
+
+    await deleteImageObjects(listing.images.map((image) => image.url));
+  }
+
+  /**
+   * Move a listing through the lifecycle. Going ACTIVE requires the fields
+   * buyers need and starts a fresh expiry period; the status update is
+   * conditional on the state we checked, so two concurrent transitions
+   * cannot both apply.
+   */
+  async transition(
+    id: string,
+    actor: AuthPrincipal,
+    transition: ListingTransition,
+    io?: Server
+  ) {
+    const existing = await this.findManageable(id, actor);
+    const { to } = LISTING_TRANSITIONS[transition];
+
+    if (!canTransition(existing.status, transition)) {
+      throw new ListingError(
+        "INVALID_TRANSITION",
+        `A ${existing.status} listing cannot move to ${to}`
+      );
+    }
+
+    if (to === ListingStatus.ACTIVE) {
+      const errors = validateListingData(storedListingInput(existing));
+      if (errors.length > 0) {
+        throw new ListingError("VALIDATION_ERROR", "Validation failed", errors);
+      }
+    }
+
+    const updated = await this.db.listing.updateMany({
+      where: { id, status: existing.status },
+      data: {
+        status: to,
+        ...transitionTimestamps(to, existing.publishedAt),
+        ...(to === ListingStatus.ACTIVE && {
+          expiresAt: getListingExpiry(existing.mainCategory),
+          expiryReminderSentAt: null,
+        }),
+      },
+    });
+    if (updated.count === 0) {
+      throw new ListingError("INVALID_TRANSITION", "Listing status changed, try again");
+    }
+
+    if (to === ListingStatus.ACTIVE && existing.status !== ListingStatus.ACTIVE) {
+      await this.matchSavedSearches(id, io);
+    }
+
+    if (to === ListingStatus.SOLD || to === ListingStatus.RENTED) {
+      const outcome = to === ListingStatus.SOLD ? "has been sold" : "has been rented out";
+      await this.notifyFavoriters(
+        id,
+        existing.userId,
+        NotificationType.LISTING_SOLD,
+        `A listing you saved, "${existing.title}", ${outcome}.`
+      ).catch((error) => console.error("Listing sold notification error:", error));
+    }
+
+    const listing = await this.db.listing.findUniqueOrThrow({
+      where: { id },
+      include: listingInclude(actor.id),
+    });
+    return serializeListing(listing, actor.id);
+  }
+
+  /**
+   * Tell everyone who saved the listing (except the owner) that its price
+   * dropped. The notification is stored and, when a socket server is
+   * available, pushed to each user's room right away.
+   */
+  private async notifyPriceDrop(
+    listing: { id: string; title: string; userId: string; price: number },
+    oldPrice: number,
+    io?: Server
+  ) {
+    const favorites = await this.db.favorite.findMany({
+      where: { listingId: listing.id, userId: { not: listing.userId } },
+      select: { userId: true },
+    });
+    if (favorites.length === 0) {
+      return;
+    }
+
+    const newPrice = listing.price;
+    const percentChange = Math.round(((newPrice - oldPrice) / oldPrice) * 1000) / 10;
+
+    const notifications = await this.db.notification.createManyAndReturn({
+      data: favorites.map(({ userId }) => ({
+        userId,
+        type: NotificationType.PRICE_UPDATE,
+        content: `Price drop on "${listing.title}": ${oldPrice} → ${newPrice} (${percentChange}%)`,
+        relatedId: listing.id,
+        metadata: { listingId: listing.id, oldPrice, newPrice, percentChange },
+      })),
+    });
+
+    notifications.forEach((notification) =>
+      io?.to(notification.userId).emit("notification", notification)
+    );
+  }
+
+  // One notification per user who saved the listing, never the owner
+  private async notifyFavoriters(
+    listingId: string,
+    ownerId: string,
+    type: NotificationType,
+    message: string
+  ) {
+    const favorites = await this.db.favorite.findMany({
+      where: { listingId, userId: { not: ownerId } },
+      select: { userId: true },
+    });
+
+    await this.db.notification.createMany({
+      data: favorites.map(({ userId }) => ({
+        userId,
+        type,
+        content: message,
+        relatedId: listingId,
+      })),
+    });
+  }
+
+  /**
+   * Save or unsave a listing for `user`. Saving someone else's listing
+   * tells the owner about the interest.
+   */
+  async toggleFavorite(id: string, user: AuthPrincipal) {
+    const listing = await this.db.listing.findFirst({
+      where: { id, ...publicListingWhere },
+      select: { id: true, title: true, userId: true },
+    });
+    if (!listing) {
+      throw new ListingError("NOT_FOUND", "Listing not found");
+    }
+
+    const removed = await this.db.favorite.deleteMany({
+      where: { listingId: id, userId: user.id },
+    });
+
+    if (removed.count === 0) {
+      try {
+        await this.db.favorite.create({ data: { listingId: id, userId: user.id } });
+      } catch (error) {
+        // A concurrent request already saved it
+        if (
+          !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+          error.code !== "P2002"
+        ) {
+          throw error;
+        }
+      }
+
+      if (listing.userId !== user.id) {
+        await createNotification({
+          userId: listing.userId,
+          type: NotificationType.LISTING_INTEREST,
+          message: `${user.username} saved your listing "${listing.title}"`,
+          relatedListingId: listing.id,
+        }).catch((error) => console.error("Listing interest notification error:", error));
+      }
+    }
+
+    const updated = await this.db.listing.findUniqueOrThrow({
+      where: { id },
+      include: listingInclude(user.id),
+    });
+    return serializeListing(updated, user.id);
+  }
+}
+
+export const listingService = new ListingService();
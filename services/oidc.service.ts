@@ -0,0 +1,273 @@
+import { PrismaClient, User } from "@prisma/client";
+import prisma from "../src/lib/prismaClient.js";
+import { env } from "../config/env.js";
+import {
+  OidcProviderConfig,
+  oidcProviders,
+  oidcRedirectUri,
+} from "../config/oidc.js";
+import { generateOpaqueToken, hashToken } from "../utils/token.utils.js";
+import { generateAvailableUsername } from "../utils/username.utils.js";
+import {
+  IdTokenClaims,
+  createPkcePair,
+  buildAuthorizationUrl,
+  exchangeAuthorizationCode,
+  verifyIdToken,
+  isEmailVerified,
+} from "../utils/oidc.utils.js";
+
+const OIDC_REQUEST_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+const LINK_FROM_SETTINGS =
+  "An account with this email already exists; sign in to it and link this provider from your account settings";
+
+export const identitySelect = {
+  id: true,
+  provider: true,
+  email: true,
+  createdAt: true,
+  lastUsedAt: true,
+} as const;
+
+export type OidcLoginErrorCode = "NOT_FOUND" | "INVALID_STATE" | "IDENTITY_CONFLICT";
+
+export class OidcLoginError extends Error {
+  constructor(
+    public code: OidcLoginErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "OidcLoginError";
+  }
+}
+
+export interface OidcServiceOptions {
+  providers?: OidcProviderConfig[];
+  redirectUri?: string;
+}
+
+export class OidcService {
+  private providers: OidcProviderConfig[];
+  private redirectUri: string;
+
+  constructor(
+    private db: PrismaClient = prisma,
+    { providers = oidcProviders, redirectUri = oidcRedirectUri }: OidcServiceOptions = {}
+  ) {
+    this.providers = providers;
+    this.redirectUri = redirectUri;
+  }
+
+  get providerNames() {
+    return this.providers.map((provider) => provider.name);
+  }
+
+  /**
+   * Record a pending authorization request and return the provider URL to
+   * send the browser to. With a userId the request links the provider to
+   * that signed-in account instead of signing in.
+   */
+  async start(providerName: string, userId?: string) {
+    const provider = this.providers.find(({ name }) => name === providerName);
+    if (!provider) {
+      throw new OidcLoginError("NOT_FOUND", "Unknown identity provider");
+    }
+
+    const state = generateOpaqueToken();
+    const nonce = generateOpaqueToken(16);
+    const { codeVerifier, codeChallenge } = createPkcePair();
+
+    const authorizationUrl = await buildAuthorizationUrl(provider, {
+      state,
+      nonce,
+      codeChallenge,
+      redirectUri: this.redirectUri,
+    });
+
+    await this.db.oidcAuthRequest.create({
+      data: {
+        stateHash: hashToken(state),
+        provider: provider.name,
+        userId,
+        codeVerifier,
+        nonce,
+        redirectUri: this.redirectUri,
+        expiresAt: new Date(Date.now() + OIDC_REQUEST_TTL_MS),
+      },
+    });
+
+    return { authorizationUrl, state };
+  }
+
+  // Finish a login request: the user behind the provider account, new or not
+  async completeLogin(code: string, state: string): Promise<User> {
+    const { provider, claims } = await this.exchangeCode(code, state, null);
+    return this.findOrCreateUser(provider.name, claims);
+  }
+
+  // Finish a link request started by the same signed-in user
+  async completeLink(code: string, state: string, userId: string) {
+    const { provider, claims } = await this.exchangeCode(code, state, userId);
+
+    const identity = await this.db.userIdentity.findUnique({
+      where: { provider_subject: { provider: provider.name, subject: claims.sub } },
+    });
+    if (identity && identity.userId !== userId) {
+      throw new OidcLoginError(
+        "IDENTITY_CONFLICT",
+        "This provider account is already linked to another user"
+      );
+    }
+
+    const email = claims.email?.toLowerCase() ?? null;
+    if (identity) {
+      return this.db.userIdentity.update({
+        where: { id: identity.id },
+        data: { lastUsedAt: new Date(), email: email ?? identity.email },
+        select: identitySelect,
+      });
+    }
+    return this.db.userIdentity.create({
+      data: { userId, provider: provider.name, subject: claims.sub, email },
+      select: identitySelect,
+    });
+  }
+
+  /**
+   * Claim the pending request for a state and trade the code for verified
+   * ID token claims. Each state works once, and login and link requests
+   * only complete as what they were started as.
+   */
+  private async exchangeCode(code: string, state: string, userId: string | null) {
+    const pending = await this.db.oidcAuthRequest.findUnique({
+      where: { stateHash: hashToken(state) },
+    });
+    const claimed = pending
+      ? await this.db.oidcAuthRequest.deleteMany({ where: { id: pending.id } })
+      : null;
+
+    const provider =
+      pending && this.providers.find(({ name }) => name === pending.provider);
+    if (
+      !pending ||
+      !claimed?.count ||
+      !provider ||
+      pending.expiresAt < new Date() ||
+      pending.userId !== userId
+    ) {
+      throw new OidcLoginError(
+        "INVALID_STATE",
+        "Sign-in request is invalid or has expired, please try again"
+      );
+    }
+
+    const idToken = await exchangeAuthorizationCode(provider, {
+      code,
+      codeVerifier: pending.codeVerifier,
+      redirectUri: pending.redirectUri,
+    });
+    const claims = await verifyIdToken(provider, idToken, pending.nonce);
+    return { provider, claims };
+  }
+
+  /**
+   * Resolve the local user for a verified ID token: a known identity signs
+   * in directly, a verified email links to the matching verified account,
+   * and an unknown email creates a new passwordless account.
+   */
+  private async findOrCreateUser(provider: string, claims: IdTokenClaims) {
+    const identity = await this.db.userIdentity.findUnique({
+      where: { provider_subject: { provider, subject: claims.sub } },
+    });
+
+    if (identity) {
+      await this.db.userIdentity.update({
+        where: { id: identity.id },
+        data: { lastUsedAt: new Date(), email: claims.email ?? identity.email },
+      });
+      return this.db.user.findUniqueOrThrow({ where: { id: identity.userId } });
+    }
+
+    if (!claims.email) {
+      throw new OidcLoginError(
+        "IDENTITY_CONFLICT",
+        "The provider did not share an email address"
+      );
+    }
+
+    const email = claims.email.toLowerCase();
+    const emailVerified = isEmailVerified(claims);
+    const existingUser = await this.db.user.findUnique({ where: { email } });
+
+    if (existingUser) {
+      // Linking on an unverified email would let anyone claim that account
+      if (!emailVerified) {
+        throw new OidcLoginError("IDENTITY_CONFLICT", LINK_FROM_SETTINGS);
+      }
+
+      const identityData = {
+        userId: existingUser.id,
+        provider,
+        subject: claims.sub,
+        email,
+        lastUsedAt: new Date(),
+      };
+
+      if (existingUser.emailVerified) {
+        await this.db.userIdentity.create({ data: identityData });
+        return existingUser;
+      }
+
+      // Without email verification no password account ever proves its
+      // address, so the owner has to link from a signed-in session
+      if (!env.ENABLE_EMAIL_VERIFICATION) {
+        throw new OidcLoginError("IDENTITY_CONFLICT", LINK_FROM_SETTINGS);
+      }
+
+      // With it, an account that never confirmed its address may not belong
+      // to the address's owner: the provider's verified owner takes it over,
+      // and the password, second factor and sessions set up before that
+      // stop working
+      const [claimedUser] = await this.db.$transaction([
+        this.db.user.update({
+          where: { id: existingUser.id },
+          data: {
+            password: null,
+            emailVerified: true,
+            emailVerifiedAt: new Date(),
+            twoFactorEnabled: false,
+            twoFactorSecret: null,
+            twoFactorLastUsedStep: null,
+          },
+        }),
+        this.db.twoFactorRecoveryCode.deleteMany({ where: { userId: existingUser.id } }),
+        this.db.twoFactorChallenge.deleteMany({ where: { userId: existingUser.id } }),
+        this.db.passwordResetToken.deleteMany({ where: { userId: existingUser.id } }),
+        this.db.session.updateMany({
+          where: { userId: existingUser.id, revokedAt: null },
+          data: { revokedAt: new Date(), revokedReason: "ACCOUNT_CLAIMED" },
+        }),
+        this.db.userIdentity.create({ data: identityData }),
+      ]);
+      return claimedUser;
+    }
+
+    return this.db.user.create({
+      data: {
+        email,
+        username: await generateAvailableUsername(email.split("@")[0], this.db),
+        name: claims.name,
+        password: null,
+        role: "USER",
+        emailVerified,
+        emailVerifiedAt: emailVerified ? new Date() : null,
+        identities: {
+          create: { provider, subject: claims.sub, email, lastUsedAt: new Date() },
+        },
+      },
+    });
+  }
+}
+
+export const oidcService = new OidcService();
@@ -0,0 +1,314 @@
+import { Prisma, PrismaClient, SavedSearch } from "@prisma/client";
+import { Server } from "socket.io";
+import { z } from "zod";
+import prisma from "../src/lib/prismaClient.js";
+import { NotificationType } from "../types/enums.js";
+import { migratePreferences } from "../utils/preferences.utils.js";
+import {
+  ListingDetailFilters,
+  ListingSearchCriteria,
+  findSearchesMatching,
+  listingDetailFiltersSchema,
+} from "../utils/listingFilters.utils.js";
+
+export const MAX_SAVED_SEARCHES = 20;
+
+const DIGEST_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Saved searches checked against a new listing per query
+const MATCH_BATCH_SIZE = 100;
+
+export type SavedSearchErrorCode = "NOT_FOUND" | "VALIDATION_ERROR" | "LIMIT_REACHED";
+
+export class SavedSearchError extends Error {
+  constructor(
+    public code: SavedSearchErrorCode,
+    message: string,
+    public issues?: { path: string; message: string }[]
+  ) {
+    super(message);
+    this.name = "SavedSearchError";
+  }
+}
+
+// Criteria fields accept null on update to clear them
+const savedSearchFields = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    query: z.string().trim().min(1).max(200).nullish(),
+    mainCategory: z.string().trim().min(1).nullish(),
+    subCategory: z.string().trim().min(1).nullish(),
+    minPrice: z.number().nonnegative().nullish(),
+    maxPrice: z.number().nonnegative().nullish(),
+    filters: listingDetailFiltersSchema.nullish(),
+  })
+  .strict();
+
+const priceRangeIsOrdered = (data: { minPrice?: number | null; maxPrice?: number | null }) =>
+  data.minPrice == null || data.maxPrice == null || data.minPrice <= data.maxPrice;
+
+const priceRangeIssue = {
+  message: "minPrice must not exceed maxPrice",
+  path: ["maxPrice"],
+};
+
+export const savedSearchSchema = savedSearchFields.refine(priceRangeIsOrdered, priceRangeIssue);
+export const savedSearchPatchSchema = savedSearchFields
+  .partial()
+  .refine(priceRangeIsOrdered, priceRangeIssue);
+
+type SavedSearchInput = z.infer<typeof savedSearchPatchSchema>;
+
+const parseInput = <T extends z.ZodTypeAny>(schema: T, body: unknown): z.infer<T> => {
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    throw new SavedSearchError(
+      "VALIDATION_ERROR",
+      "Invalid saved search",
+      parsed.error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      }))
+    );
+  }
+  return parsed.data;
+};
+
+export const toSearchCriteria = (search: SavedSearch): ListingSearchCriteria => ({
+  query: search.query ?? undefined,
+  mainCategory: search.mainCategory ?? undefined,
+  subCategory: search.subCategory ?? undefined,
+  minPrice: search.minPrice ?? undefined,
+  maxPrice: search.maxPrice ?? undefined,
+  filters: (search.filters as ListingDetailFilters | null) ?? undefined,
+});
+
+const toData = (input: SavedSearchInput) => ({
+  ...input,
+  filters:
+    input.filters === null
+      ? Prisma.DbNull
+      : (input.filters as Prisma.InputJsonValue | undefined),
+});
+
+export class SavedSearchService {
+  constructor(private db: PrismaClient = prisma) {}
+
+  list(userId: string) {
+    return this.db.savedSearch.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  async get(userId: string, id: string) {
+    const search = await this.db.savedSearch.findFirst({ where: { id, userId } });
+    if (!search) {
+      throw new SavedSearchError("NOT_FOUND", "Saved search not found");
+    }
+    return search;
+  }
+
+  async create(userId: string, body: unknown) {
+    const input = parseInput(savedSearchSchema, body);
+
+    const count = await this.db.savedSearch.count({ where: { userId } });
+    if (count >= MAX_SAVED_SEARCHES) {
+      throw new SavedSearchError(
+        "LIMIT_REACHED",
+        `You can save up to ${MAX_SAVED_SEARCHES} searches`
+      );
+    }
+
+    return this.db.savedSearch.create({ data: { ...toData(input), name: input.name, userId } });
+  }
+
+  async update(userId: string, id: string, body: unknown) {
+    const input = parseInput(savedSearchPatchSchema, body);
+    const existing = await this.get(userId, id);
+
+    const merged = { ...existing, ...input };
+    if (!priceRangeIsOrdered(merged)) {
+      throw new SavedSearchError("VALIDATION_ERROR", "Invalid saved search", [
+        { path: "maxPrice", message: priceRangeIssue.message },
+      ]);
+    }
+
+    return this.db.savedSearch.update({ where: { id }, data: toData(input) });
+  }
+
+  async delete(userId: string, id: string) {
+    await this.get(userId, id);
+    await this.db.savedSearch.delete({ where: { id } });
+  }
+
+  // Criteria for "run now"; records when the search was last run
+  async startRun(userId: string, id: string) {
+    const search = await this.get(userId, id);
+    await this.db.savedSearch.update({ where: { id }, data: { lastRunAt: new Date() } });
+    return toSearchCriteria(search);
+  }
+
+  /**
+   * Match a listing that just became ACTIVE against everyone's saved
+   * searches. Each (search, listing) pair is recorded once, so relisting
+   * never alerts twice. Users on instant alerts are notified now (and over
+   * `io` when given); daily users wait for the digest.
+   */
+  async matchListing(listingId: string, io?: Server) {
+    const listing = await this.db.listing.findUnique({
+      where: { id: listingId },
+      select: {
+        id: true,
+        title: true,
+        userId: true,
+        price: true,
+        mainCategory: true,
+        subCategory: true,
+      },
+    });
+    if (!listing) {
+      return 0;
+    }
+
+    // Cheap column checks first; the full criteria run below, a batch of
+    // candidates per query
+    const candidates = await this.db.savedSearch.findMany({
+      where: {
+        userId: { not: listing.userId },
+        user: { deletionRequestedAt: null },
+        AND: [
+          { OR: [{ mainCategory: null }, { mainCategory: listing.mainCategory }] },
+          { OR: [{ subCategory: null }, { subCategory: listing.subCategory }] },
+          { OR: [{ minPrice: null }, { minPrice: { lte: listing.price } }] },
+          { OR: [{ maxPrice: null }, { maxPrice: { gte: listing.price } }] },
+        ],
+      },
+      include: { user: { select: { preferences: true } } },
+    });
+
+    const matchedIds = new Set<string>();
+    for (let start = 0; start < candidates.length; start += MATCH_BATCH_SIZE) {
+      const ids = await findSearchesMatching(
+        this.db,
+        listing.id,
+        candidates
+          .slice(start, start + MATCH_BATCH_SIZE)
+          .map((search) => ({ id: search.id, criteria: toSearchCriteria(search) }))
+      );
+      ids.forEach((id) => matchedIds.add(id));
+    }
+    const matched = candidates.filter((search) => matchedIds.has(search.id));
+    if (matched.length === 0) {
+      return 0;
+    }
+
+    const now = new Date();
+    const alertsFor = (search: (typeof matched)[number]) =>
+      migratePreferences(search.user.preferences).savedSearchAlerts;
+
+    // Only daily users keep matches pending; "off" counts as handled
+    const created = await this.db.savedSearchMatch.createManyAndReturn({
+      data: matched.map((search) => ({
+        savedSearchId: search.id,
+        listingId: listing.id,
+        notifiedAt: alertsFor(search) === "daily" ? null : now,
+      })),
+      skipDuplicates: true,
+    });
+
+    const createdSearchIds = new Set(created.map((match) => match.savedSearchId));
+    const instant = matched.filter(
+      (search) => createdSearchIds.has(search.id) && alertsFor(search) === "instant"
+    );
+    if (instant.length > 0) {
+      const notifications = await this.db.notification.createManyAndReturn({
+        data: instant.map((search) => ({
+          userId: search.userId,
+          type: NotificationType.SAVED_SEARCH_MATCH,
+          content: `New listing for your saved search "${search.name}": ${listing.title}`,
+          relatedId: listing.id,
+          metadata: { savedSearchId: search.id, listingIds: [listing.id] },
+        })),
+      });
+      notifications.forEach((notification) =>
+        io?.to(notification.userId).emit("notification", notification)
+      );
+    }
+
+    return created.length;
+  }
+
+  /**
+   * Send each daily-digest user one notification for their pending matches,
+   * at most once a day: a user's matches wait until the oldest is a day old.
+   * Users who switched alerts off meanwhile have their matches cleared.
+   */
+  async sendDailyDigests(tx: Prisma.TransactionClient, now: Date = new Date()) {
+    const pending = await tx.savedSearchMatch.findMany({
+      where: { notifiedAt: null },
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        listingId: true,
+        createdAt: true,
+        savedSearch: {
+          select: {
+            id: true,
+            name: true,
+            userId: true,
+            user: { select: { preferences: true } },
+          },
+        },
+      },
+    });
+
+    const byUser = new Map<string, typeof pending>();
+    for (const match of pending) {
+      const userId = match.savedSearch.userId;
+      byUser.set(userId, [...(byUser.get(userId) ?? []), match]);
+    }
+
+    let sent = 0;
+    for (const [userId, matches] of byUser) {
+      if (now.getTime() - matches[0].createdAt.getTime() < DIGEST_INTERVAL_MS) {
+        continue;
+      }
+
+      const alerts = migratePreferences(matches[0].savedSearch.user.preferences).savedSearchAlerts;
+      if (alerts !== "off") {
+        const searches = new Map<string, { savedSearchId: string; name: string; listingIds: string[] }>();
+        for (const { savedSearch, listingId } of matches) {
+          const entry = searches.get(savedSearch.id) ?? {
+            savedSearchId: savedSearch.id,
+            name: savedSearch.name,
+            listingIds: [],
+          };
+          entry.listingIds.push(listingId);
+          searches.set(savedSearch.id, entry);
+        }
+
+        const summary = [...searches.values()]
+          .map((search) => `${search.name} (${search.listingIds.length})`)
+          .join(", ");
+        await tx.notification.create({
+          data: {
+            userId,
+            type: NotificationType.SAVED_SEARCH_MATCH,
+            content: `${matches.length} new listing(s) match your saved searches: ${summary}`,
+            metadata: { searches: [...searches.values()] },
+          },
+        });
+        sent++;
+      }
+
+      await tx.savedSearchMatch.updateMany({
+        where: { id: { in: matches.map((match) => match.id) } },
+        data: { notifiedAt: now },
+      });
+    }
+    return sent;
+  }
+}
+
+export const savedSearchService = new SavedSearchService();
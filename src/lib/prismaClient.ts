@@ -34,7 +34,9 @@ async function validateConnection() {
   }
 }
 
-// Call validateConnection but don't await it here
-validateConnection().catch(console.error);
+// Call validateConnection but don't await it here; tests run without a database
+if (process.env.NODE_ENV !== 'test') {
+  validateConnection().catch(console.error);
+}
 
 export default prisma;
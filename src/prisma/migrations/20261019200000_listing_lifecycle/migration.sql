@@ -0,0 +1,16 @@
+-- Any free-form status outside the enum becomes ACTIVE
+UPDATE "Listing" SET "status" = 'ACTIVE'
+WHERE "status" NOT IN ('DRAFT', 'ACTIVE', 'SOLD', 'RENTED', 'EXPIRED', 'ARCHIVED');
+
+-- AlterTable
+ALTER TABLE "Listing" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "Listing" ALTER COLUMN "status" TYPE "ListingStatus" USING ("status"::"ListingStatus");
+ALTER TABLE "Listing" ALTER COLUMN "status" SET DEFAULT 'ACTIVE',
+ADD COLUMN     "publishedAt" TIMESTAMP(3),
+ADD COLUMN     "soldAt" TIMESTAMP(3);
+
+-- Existing listings were published when they were created
+UPDATE "Listing" SET "publishedAt" = "createdAt" WHERE "status" <> 'DRAFT';
+
+-- CreateIndex
+CREATE INDEX "Listing_status_idx" ON "Listing"("status");
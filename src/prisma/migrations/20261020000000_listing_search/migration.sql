@@ -0,0 +1,64 @@
+-- AlterTable
+ALTER TABLE "Listing" ADD COLUMN "searchVector" tsvector;
+
+-- Weighted search document: title (A), vehicle make/model and property
+-- type (B), description (C). The "simple" configuration keeps words as
+-- typed so Arabic and English listings tokenize the same way.
+CREATE FUNCTION listing_search_document(p_listing_id TEXT, p_title TEXT, p_description TEXT)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('simple', coalesce(p_title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(
+      (SELECT concat_ws(' ', v."make", v."model") FROM "VehicleDetails" v WHERE v."listingId" = p_listing_id),
+      ''
+    )), 'B') ||
+    setweight(to_tsvector('simple', coalesce(
+      (SELECT r."propertyType" FROM "RealEstateDetails" r WHERE r."listingId" = p_listing_id),
+      ''
+    )), 'B') ||
+    setweight(to_tsvector('simple', coalesce(p_description, '')), 'C');
+$$ LANGUAGE sql STABLE;
+
+CREATE FUNCTION listing_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" := listing_search_document(NEW."id", NEW."title", NEW."description");
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Listing_searchVector_update"
+BEFORE INSERT OR UPDATE OF "title", "description" ON "Listing"
+FOR EACH ROW EXECUTE FUNCTION listing_search_vector_trigger();
+
+-- Detail rows are written after their listing, so refresh the parent
+CREATE FUNCTION listing_details_search_trigger() RETURNS trigger AS $$
+DECLARE
+  target TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target := OLD."listingId";
+  ELSE
+    target := NEW."listingId";
+  END IF;
+
+  UPDATE "Listing"
+  SET "searchVector" = listing_search_document("id", "title", "description")
+  WHERE "id" = target;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "VehicleDetails_search_update"
+AFTER INSERT OR UPDATE OR DELETE ON "VehicleDetails"
+FOR EACH ROW EXECUTE FUNCTION listing_details_search_trigger();
+
+CREATE TRIGGER "RealEstateDetails_search_update"
+AFTER INSERT OR UPDATE OR DELETE ON "RealEstateDetails"
+FOR EACH ROW EXECUTE FUNCTION listing_details_search_trigger();
+
+-- Backfill
+UPDATE "Listing"
+SET "searchVector" = listing_search_document("id", "title", "description");
+
+-- CreateIndex
+CREATE INDEX "Listing_searchVector_idx" ON "Listing" USING GIN ("searchVector");
@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "DistanceUnit" AS ENUM ('KM', 'MILES');
+
+-- CreateEnum
+CREATE TYPE "AreaUnit" AS ENUM ('SQM', 'SQFT');
+
+-- Keep the old text until scripts/migrateMeasurements.ts has parsed it
+ALTER TABLE "VehicleDetails" ADD COLUMN "legacyMeasurements" JSONB;
+UPDATE "VehicleDetails"
+SET "legacyMeasurements" = NULLIF(
+  jsonb_strip_nulls(jsonb_build_object(
+    'year', NULLIF(trim("year"), ''),
+    'mileage', NULLIF(trim("mileage"), '')
+  )),
+  '{}'::jsonb
+);
+
+ALTER TABLE "RealEstateDetails" ADD COLUMN "legacyMeasurements" JSONB;
+UPDATE "RealEstateDetails"
+SET "legacyMeasurements" = NULLIF(
+  jsonb_strip_nulls(jsonb_build_object(
+    'size', NULLIF(trim("size"), ''),
+    'yearBuilt', NULLIF(trim("yearBuilt"), ''),
+    'bedrooms', NULLIF(trim("bedrooms"), ''),
+    'bathrooms', NULLIF(trim("bathrooms"), '')
+  )),
+  '{}'::jsonb
+);
+
+-- AlterTable
+ALTER TABLE "VehicleDetails"
+  DROP COLUMN "year",
+  DROP COLUMN "mileage",
+  ADD COLUMN "year" INTEGER,
+  ADD COLUMN "mileage" INTEGER,
+  ADD COLUMN "mileageUnit" "DistanceUnit" NOT NULL DEFAULT 'KM';
+
+-- AlterTable
+ALTER TABLE "RealEstateDetails"
+  DROP COLUMN "size",
+  DROP COLUMN "yearBuilt",
+  DROP COLUMN "bedrooms",
+  DROP COLUMN "bathrooms",
+  ADD COLUMN "size" DOUBLE PRECISION,
+  ADD COLUMN "sizeUnit" "AreaUnit" NOT NULL DEFAULT 'SQM',
+  ADD COLUMN "yearBuilt" INTEGER,
+  ADD COLUMN "bedrooms" INTEGER,
+  ADD COLUMN "bathrooms" INTEGER;
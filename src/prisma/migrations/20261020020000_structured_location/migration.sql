@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Listing" ADD COLUMN "country" TEXT,
+ADD COLUMN "region" TEXT,
+ADD COLUMN "city" TEXT,
+ADD COLUMN "latitude" DOUBLE PRECISION,
+ADD COLUMN "longitude" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "country" TEXT,
+ADD COLUMN "region" TEXT,
+ADD COLUMN "city" TEXT,
+ADD COLUMN "latitude" DOUBLE PRECISION,
+ADD COLUMN "longitude" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "Listing_latitude_longitude_idx" ON "Listing"("latitude", "longitude");
@@ -0,0 +1,58 @@
+import "./setup.js";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import jwt from "jsonwebtoken";
+import { createCaptureTransport, setMailTransport } from "../config/mailer.js";
+import { env } from "../config/env.js";
+import {
+  EmailVerificationPayload,
+  sendPasswordResetEmail,
+  sendVerificationEmail,
+} from "../utils/email.utils.js";
+import { verifyPurposeToken } from "../utils/token.utils.js";
+
+const linkToken = (text: string, path: string) => {
+  const link = text.match(new RegExp(`${env.FRONTEND_URL}${path}\\?token=(\\S+)`));
+  assert.ok(link, `expected a ${path} link`);
+  return decodeURIComponent(link[1]);
+};
+
+describe("account emails", () => {
+  let mail: ReturnType<typeof createCaptureTransport>;
+
+  beforeEach(() => {
+    mail = createCaptureTransport();
+    setMailTransport(mail);
+  });
+
+  afterEach(() => setMailTransport(null));
+
+  it("sends a verification link bound to the user and address", async () => {
+    await sendVerificationEmail({ id: "user-1", email: "ada@example.com" });
+
+    assert.equal(mail.messages.length, 1);
+    const [message] = mail.messages;
+    assert.equal(message.to, "ada@example.com");
+    assert.equal(message.from, env.EMAIL_FROM);
+
+    const payload = verifyPurposeToken<EmailVerificationPayload>(
+      "email-verification",
+      linkToken(message.text, "/verify-email"),
+    );
+    assert.equal(payload.id, "user-1");
+    assert.equal(payload.email, "ada@example.com");
+  });
+
+  it("does not accept other signed tokens as verification tokens", () => {
+    const accessToken = jwt.sign({ id: "user-1", sid: "session-1" }, env.JWT_SECRET);
+    assert.throws(() => verifyPurposeToken("email-verification", accessToken));
+  });
+
+  it("sends the reset token in the password reset link", async () => {
+    await sendPasswordResetEmail("ada@example.com", "reset-token");
+
+    assert.equal(mail.messages.length, 1);
+    assert.equal(mail.messages[0].to, "ada@example.com");
+    assert.equal(linkToken(mail.messages[0].text, "/reset-password"), "reset-token");
+  });
+});
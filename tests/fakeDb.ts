@@ -0,0 +1,185 @@
+import { PrismaClient } from "@prisma/client";
+
+type Row = Record<string, any>;
+
+// Just enough of Prisma's filter language for the queries under test
+const matches = (row: Row, where: Row = {}): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    if (key === "OR") {
+      return (condition as Row[]).some((option) => matches(row, option));
+    }
+    if (key === "AND") {
+      return (condition as Row[]).every((option) => matches(row, option));
+    }
+    if (condition instanceof Date) {
+      return row[key]?.getTime() === condition.getTime();
+    }
+    if (condition === null || typeof condition !== "object") {
+      return row[key] === condition;
+    }
+
+    const value = row[key];
+    return Object.entries(condition as Row).every(([operator, operand]) => {
+      switch (operator) {
+        case "not":
+          return operand === null ? value != null : value !== operand;
+        case "in":
+          return (operand as unknown[]).includes(value);
+        case "lt":
+          return value != null && value < operand;
+        case "lte":
+          return value != null && value <= operand;
+        case "gt":
+          return value != null && value > operand;
+        case "gte":
+          return value != null && value >= operand;
+        default:
+          // A compound unique key such as provider_subject
+          return matches(row, condition);
+      }
+    });
+  });
+
+// Like Prisma, undefined leaves a field alone
+const applyData = (row: Row, data: Row) => {
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) {
+      continue;
+    }
+    row[key] =
+      value && typeof value === "object" && "increment" in value
+        ? (row[key] ?? 0) + value.increment
+        : value;
+  }
+  return row;
+};
+
+const pick = (row: Row, select?: Row) =>
+  select
+    ? Object.fromEntries(Object.keys(select).map((key) => [key, row[key]]))
+    : { ...row };
+
+const createTable = (name: string, defaults: Row = {}) => {
+  const rows: Row[] = [];
+  let nextId = 1;
+
+  return {
+    rows,
+    findUnique: async ({ where, select }: Row) => {
+      const row = rows.find((candidate) => matches(candidate, where));
+      return row ? pick(row, select) : null;
+    },
+    findUniqueOrThrow: async ({ where, select }: Row) => {
+      const row = rows.find((candidate) => matches(candidate, where));
+      if (!row) {
+        throw new Error(`No ${name} found`);
+      }
+      return pick(row, select);
+    },
+    findFirst: async ({ where, select }: Row = {}) => {
+      const row = rows.find((candidate) => matches(candidate, where));
+      return row ? pick(row, select) : null;
+    },
+    findMany: async ({ where, select, distinct }: Row = {}) => {
+      const found = rows.filter((row) => matches(row, where));
+      const unique = distinct
+        ? found.filter(
+            (row, index) =>
+              found.findIndex((other) =>
+                (distinct as string[]).every((key) => other[key] === row[key])
+              ) === index
+          )
+        : found;
+      return unique.map((row) => pick(row, select));
+    },
+    count: async ({ where }: Row = {}) =>
+      rows.filter((row) => matches(row, where)).length,
+    create: async ({ data, select }: Row) => {
+      const row = applyData(
+        { id: `${name}-${nextId++}`, createdAt: new Date(), ...defaults },
+        data
+      );
+      rows.push(row);
+      return pick(row, select);
+    },
+    createMany: async ({ data }: Row) => {
+      for (const item of data as Row[]) {
+        rows.push(
+          applyData({ id: `${name}-${nextId++}`, createdAt: new Date(), ...defaults }, item)
+        );
+      }
+      return { count: (data as Row[]).length };
+    },
+    update: async ({ where, data, select }: Row) => {
+      const row = rows.find((candidate) => matches(candidate, where));
+      if (!row) {
+        throw new Error(`No ${name} to update`);
+      }
+      return pick(applyData(row, data), select);
+    },
+    updateMany: async ({ where, data }: Row) => {
+      const updated = rows.filter((row) => matches(row, where));
+      updated.forEach((row) => applyData(row, data));
+      return { count: updated.length };
+    },
+    deleteMany: async ({ where }: Row = {}) => {
+      const kept = rows.filter((row) => !matches(row, where));
+      const count = rows.length - kept.length;
+      rows.splice(0, rows.length, ...kept);
+      return { count };
+    },
+  };
+};
+
+/**
+ * An in-memory stand-in for the Prisma client with the models the tests
+ * touch. Rows are plain objects, so tests can seed and inspect them
+ * directly; only the query features used by the code under test exist.
+ */
+export const createFakeDb = () => {
+  const tables = {
+    user: createTable("user", {
+      emailVerified: false,
+      emailVerifiedAt: null,
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorLastUsedStep: null,
+    }),
+    userIdentity: createTable("identity", { lastUsedAt: null }),
+    oidcAuthRequest: createTable("oidcRequest", { userId: null }),
+    session: createTable("session", { revokedAt: null }),
+    passwordResetToken: createTable("passwordReset", { usedAt: null }),
+    twoFactorRecoveryCode: createTable("recoveryCode", { usedAt: null }),
+    twoFactorChallenge: createTable("challenge", { attempts: 0, usedAt: null }),
+    listing: createTable("listing", {
+      status: "ACTIVE",
+      expiresAt: null,
+      expiryReminderSentAt: null,
+    }),
+    notification: createTable("notification", { read: false, relatedId: null }),
+  };
+
+  // Nested writes the code under test relies on
+  const createUser = tables.user.create;
+  tables.user.create = async ({ data: { identities, ...data }, select }: Row) => {
+    const user = await createUser({ data });
+    if (identities?.create) {
+      await tables.userIdentity.create({
+        data: { ...identities.create, userId: user.id },
+      });
+    }
+    return pick(user, select);
+  };
+
+  // No other instance ever holds an advisory lock here
+  const client: Row = {
+    ...tables,
+    $queryRaw: async () => [{ locked: true }],
+  };
+  client.$transaction = async (operations: unknown) =>
+    typeof operations === "function"
+      ? operations(client)
+      : Promise.all(operations as Promise<unknown>[]);
+
+  return { tables, db: client as unknown as PrismaClient };
+};
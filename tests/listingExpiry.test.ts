@@ -0,0 +1,81 @@
+import "./setup.js";
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { runListingExpiry } from "../jobs/listingExpiry.job.js";
+import { createFakeDb } from "./fakeDb.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+const daysFromNow = (days: number) => new Date(NOW.getTime() + days * DAY_MS);
+
+describe("listing expiry", () => {
+  let fake: ReturnType<typeof createFakeDb>;
+
+  beforeEach(() => {
+    fake = createFakeDb();
+  });
+
+  const addListing = (data: Record<string, unknown>) =>
+    fake.tables.listing.create({
+      data: { title: "Bike", userId: "user-1", mainCategory: "VEHICLES", ...data },
+    });
+
+  it("expires listings past their expiry and tells the owner once", async () => {
+    const overdue = await addListing({ expiresAt: daysFromNow(-1) });
+    const current = await addListing({ expiresAt: daysFromNow(20) });
+
+    assert.deepEqual(await runListingExpiry(NOW, fake.db), { reminded: 0, expired: 1 });
+    assert.deepEqual(await runListingExpiry(NOW, fake.db), { reminded: 0, expired: 0 });
+
+    const statuses = Object.fromEntries(
+      fake.tables.listing.rows.map((listing) => [listing.id, listing.status])
+    );
+    assert.deepEqual(statuses, { [overdue.id]: "EXPIRED", [current.id]: "ACTIVE" });
+
+    const [notification] = fake.tables.notification.rows;
+    assert.equal(fake.tables.notification.rows.length, 1);
+    assert.equal(notification.type, "LISTING_EXPIRY");
+    assert.equal(notification.relatedId, overdue.id);
+  });
+
+  it("reminds owners shortly before expiry, only once per listing", async () => {
+    const soon = await addListing({ expiresAt: daysFromNow(2) });
+    await addListing({ expiresAt: daysFromNow(10) });
+
+    assert.deepEqual(await runListingExpiry(NOW, fake.db), { reminded: 1, expired: 0 });
+    assert.deepEqual(await runListingExpiry(NOW, fake.db), { reminded: 0, expired: 0 });
+
+    assert.deepEqual(fake.tables.listing.rows[0].expiryReminderSentAt, NOW);
+    assert.equal(fake.tables.notification.rows[0].relatedId, soon.id);
+    assert.match(fake.tables.notification.rows[0].content, /expires on 2026-10-21/);
+  });
+
+  it("follows the clock it is given rather than the wall clock", async () => {
+    await addListing({ expiresAt: daysFromNow(5) });
+
+    assert.deepEqual(await runListingExpiry(NOW, fake.db), { reminded: 0, expired: 0 });
+    assert.deepEqual(await runListingExpiry(daysFromNow(3), fake.db), {
+      reminded: 1,
+      expired: 0,
+    });
+    assert.deepEqual(await runListingExpiry(daysFromNow(6), fake.db), {
+      reminded: 0,
+      expired: 1,
+    });
+    assert.equal(fake.tables.listing.rows[0].status, "EXPIRED");
+  });
+
+  it("gives older listings without an expiry a full lifetime from now", async () => {
+    await addListing({ mainCategory: "VEHICLES" });
+    await addListing({ mainCategory: "ELECTRONICS" });
+    await addListing({ mainCategory: "ELECTRONICS", status: "DRAFT" });
+
+    await runListingExpiry(NOW, fake.db);
+
+    assert.deepEqual(
+      fake.tables.listing.rows.map((listing) => listing.expiresAt),
+      [daysFromNow(60), daysFromNow(30), null]
+    );
+  });
+});
@@ -0,0 +1,202 @@
+import "./setup.js";
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { OidcLoginError, OidcService } from "../services/oidc.service.js";
+import { OidcError } from "../utils/oidc.utils.js";
+import { hashToken } from "../utils/token.utils.js";
+import { MockOidcIssuer, startMockOidcIssuer } from "../scripts/mockOidcIssuer.js";
+import { createFakeDb } from "./fakeDb.js";
+
+const REDIRECT_URI = "http://frontend.test/auth/callback";
+
+// Follow the authorization URL like a browser would and read the redirect
+const authorize = async (authorizationUrl: string, signInAs: Record<string, string> = {}) => {
+  const url = new URL(authorizationUrl);
+  Object.entries(signInAs).forEach(([key, value]) => url.searchParams.set(key, value));
+
+  const response = await fetch(url, { redirect: "manual" });
+  assert.equal(response.status, 302);
+  const redirect = new URL(response.headers.get("location")!);
+  assert.equal(`${redirect.origin}${redirect.pathname}`, REDIRECT_URI);
+  return {
+    code: redirect.searchParams.get("code")!,
+    state: redirect.searchParams.get("state")!,
+  };
+};
+
+const rejectsWith = (promise: Promise<unknown>, code: OidcLoginError["code"]) =>
+  assert.rejects(promise, (error) => error instanceof OidcLoginError && error.code === code);
+
+describe("OIDC login against the mock issuer", () => {
+  let issuer: MockOidcIssuer;
+  let fake: ReturnType<typeof createFakeDb>;
+  let service: OidcService;
+
+  before(async () => {
+    issuer = await startMockOidcIssuer();
+  });
+
+  after(() => issuer.close());
+
+  beforeEach(() => {
+    fake = createFakeDb();
+    service = new OidcService(fake.db, {
+      providers: [
+        {
+          name: "mock",
+          issuer: issuer.issuer,
+          clientId: issuer.clientId,
+          scopes: ["openid", "email", "profile"],
+        },
+      ],
+      redirectUri: REDIRECT_URI,
+    });
+  });
+
+  const signIn = async (signInAs: Record<string, string>) => {
+    const { authorizationUrl } = await service.start("mock");
+    const { code, state } = await authorize(authorizationUrl, signInAs);
+    return service.completeLogin(code, state);
+  };
+
+  it("sends the browser to the provider with state, nonce and a PKCE challenge", async () => {
+    const { authorizationUrl, state } = await service.start("mock");
+
+    const url = new URL(authorizationUrl);
+    assert.equal(`${url.origin}${url.pathname}`, `${issuer.issuer}/authorize`);
+    assert.equal(url.searchParams.get("client_id"), issuer.clientId);
+    assert.equal(url.searchParams.get("redirect_uri"), REDIRECT_URI);
+    assert.equal(url.searchParams.get("state"), state);
+    assert.equal(url.searchParams.get("code_challenge_method"), "S256");
+    assert.ok(url.searchParams.get("code_challenge"));
+    assert.ok(url.searchParams.get("nonce"));
+
+    // Only a hash of the state is kept
+    const [pending] = fake.tables.oidcAuthRequest.rows;
+    assert.equal(pending.stateHash, hashToken(state));
+    assert.equal(pending.userId, null);
+  });
+
+  it("rejects providers that are not configured", async () => {
+    await rejectsWith(service.start("elsewhere"), "NOT_FOUND");
+  });
+
+  it("creates a passwordless account for a new verified email", async () => {
+    const user = await signIn({ email: "New.User@Example.com", sub: "subject-1" });
+
+    assert.equal(user.email, "new.user@example.com");
+    assert.equal(user.password, null);
+    assert.equal(user.emailVerified, true);
+    assert.deepEqual(
+      fake.tables.userIdentity.rows.map(({ userId, provider, subject }) => ({
+        userId,
+        provider,
+        subject,
+      })),
+      [{ userId: user.id, provider: "mock", subject: "subject-1" }]
+    );
+    assert.equal(fake.tables.oidcAuthRequest.rows.length, 0);
+  });
+
+  it("signs a known identity back in to the same account", async () => {
+    const first = await signIn({ email: "ada@example.com", sub: "subject-1" });
+    const second = await signIn({ email: "ada@example.com", sub: "subject-1" });
+
+    assert.equal(second.id, first.id);
+    assert.equal(fake.tables.user.rows.length, 1);
+  });
+
+  it("rejects a callback whose code verifier does not match the challenge", async () => {
+    const { authorizationUrl } = await service.start("mock");
+    const { code, state } = await authorize(authorizationUrl);
+    fake.tables.oidcAuthRequest.rows[0].codeVerifier = "not-the-original-verifier";
+
+    await assert.rejects(service.completeLogin(code, state), OidcError);
+    assert.equal(fake.tables.user.rows.length, 0);
+  });
+
+  it("rejects an unknown state and never accepts a state twice", async () => {
+    const { authorizationUrl } = await service.start("mock");
+    const { code, state } = await authorize(authorizationUrl);
+
+    await rejectsWith(service.completeLogin(code, "some-other-state"), "INVALID_STATE");
+    await service.completeLogin(code, state);
+    await rejectsWith(service.completeLogin(code, state), "INVALID_STATE");
+  });
+
+  it("links a verified provider email to the matching verified account", async () => {
+    const existing = await fake.tables.user.create({
+      data: {
+        email: "ada@example.com",
+        username: "ada",
+        password: "password-hash",
+        emailVerified: true,
+      },
+    });
+
+    const user = await signIn({ email: "ada@example.com", sub: "subject-1" });
+
+    assert.equal(user.id, existing.id);
+    assert.equal(fake.tables.user.rows[0].password, "password-hash");
+    assert.equal(fake.tables.userIdentity.rows[0].userId, existing.id);
+  });
+
+  it("does not sign in to an unverified account, which has to link instead", async () => {
+    await fake.tables.user.create({
+      data: { email: "ada@example.com", username: "ada", password: "password-hash" },
+    });
+
+    await rejectsWith(signIn({ email: "ada@example.com" }), "IDENTITY_CONFLICT");
+    assert.equal(fake.tables.user.rows[0].password, "password-hash");
+    assert.equal(fake.tables.userIdentity.rows.length, 0);
+  });
+
+  it("does not link on an email the provider has not verified", async () => {
+    await fake.tables.user.create({
+      data: {
+        email: "ada@example.com",
+        username: "ada",
+        password: "password-hash",
+        emailVerified: true,
+      },
+    });
+
+    await rejectsWith(
+      signIn({ email: "ada@example.com", email_verified: "false" }),
+      "IDENTITY_CONFLICT"
+    );
+    assert.equal(fake.tables.userIdentity.rows.length, 0);
+  });
+
+  it("links a provider account from a signed-in session", async () => {
+    const user = await fake.tables.user.create({
+      data: { email: "ada@example.com", username: "ada", password: "password-hash" },
+    });
+
+    const { authorizationUrl } = await service.start("mock", user.id);
+    const { code, state } = await authorize(authorizationUrl, {
+      email: "ada.personal@example.com",
+      sub: "subject-1",
+    });
+    const identity = await service.completeLink(code, state, user.id);
+
+    assert.equal(identity.provider, "mock");
+    assert.equal(identity.email, "ada.personal@example.com");
+    assert.equal(fake.tables.userIdentity.rows[0].userId, user.id);
+  });
+
+  it("only completes a link for the user who started it", async () => {
+    const { authorizationUrl } = await service.start("mock", "user-1");
+    const { code, state } = await authorize(authorizationUrl);
+
+    await rejectsWith(service.completeLink(code, state, "user-2"), "INVALID_STATE");
+    assert.equal(fake.tables.userIdentity.rows.length, 0);
+  });
+
+  it("does not let a link request sign anyone in", async () => {
+    const { authorizationUrl } = await service.start("mock", "user-1");
+    const { code, state } = await authorize(authorizationUrl);
+
+    await rejectsWith(service.completeLogin(code, state), "INVALID_STATE");
+  });
+});
@@ -53,8 +53,9 @@ export interface SingleListingResponse {
     vehicleType: string;
     make: string;
     model: string;
-    year: string;
-    mileage?: string;
+    year: number | null;
+    mileage?: number | null;
+    mileageUnit: string;
     fuelType?: string;
     transmissionType?: string;
     color?: string;
@@ -64,10 +65,11 @@ export interface SingleListingResponse {
   realEstateDetails?: {
     id: string;
     propertyType: string;
-    size?: string;
-    yearBuilt?: string;
-    bedrooms?: string;
-    bathrooms?: string;
+    size?: number | null;
+    sizeUnit: string;
+    yearBuilt?: number | null;
+    bedrooms?: number | null;
+    bathrooms?: number | null;
     condition?: string;
     listingId: string;
   } | null;
@@ -56,5 +56,16 @@ export enum NotificationType {
   PRICE_UPDATE = 'PRICE_UPDATE',
   LISTING_SOLD = 'LISTING_SOLD',
   SYSTEM_NOTICE = 'SYSTEM_NOTICE',
-  LISTING_CREATED = 'LISTING_CREATED'
+  LISTING_CREATED = 'LISTING_CREATED',
+  LISTING_EXPIRY = 'LISTING_EXPIRY',
+  SAVED_SEARCH_MATCH = 'SAVED_SEARCH_MATCH'
+}
+
+export enum Permission {
+  LISTINGS_HIDE = 'listings:hide',
+  LISTINGS_MANAGE_ANY = 'listings:manage-any',
+  USERS_DELETE = 'users:delete',
+  USERS_MANAGE_ROLES = 'users:manage-roles',
+  CONVERSATIONS_READ_REPORTED = 'conversations:read-reported',
+  AUDIT_LOG_READ = 'audit-log:read'
 }
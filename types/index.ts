@@ -1,5 +1,5 @@
 import { Request } from "express";
-import { Prisma } from "@prisma/client";
+import { Prisma, UserRole } from "@prisma/client";
 
 // Re-export all shared types
 export * from "./shared";
@@ -8,36 +8,23 @@ export * from "./shared";
 export type InputJsonValue = Prisma.InputJsonValue;
 
 // Auth types
-export interface AuthRequest extends Request {
-  user: {
-    id: string;
-    email: string;
-    username: string;
-    role: string;
-  };
+// The authenticated caller, resolved from the access token and its session
+export interface AuthPrincipal {
+  id: string;
+  email: string;
+  username: string;
+  role: UserRole;
+  sessionId: string;
 }
 
-// User preferences types
-export interface UserPreferences {
-  [key: string]: any; // Add index signature for Prisma JSON compatibility
-  language: string;
-  theme: "light" | "dark";
-  notifications: {
-    email: boolean;
-    push: boolean;
-    sms: boolean;
-    enabledTypes?: string[];
-    emailNotifications: {
-      newMessage: boolean;
-      listingUpdates: boolean;
-      promotions: boolean;
-    };
-  };
-  currency: string;
-  timezone: string;
-  dateFormat: string;
+// Request that has passed `authenticate`
+export interface AuthRequest extends Request {
+  user: AuthPrincipal;
 }
 
+// User preferences types (validated by the zod schema they come from)
+export type { UserPreferences } from "../utils/preferences.utils.js";
+
 // Message types
 export interface MessageData {
   senderId: string;
@@ -1,19 +1,6 @@
-import { Request } from "express";
 import { ListingStatus } from "@prisma/client";
 
 // Request types
-export interface AuthRequest extends Request {
-  user: {
-    id: string;
-    email: string;
-    username: string;
-    role: string;
-  };
-  files?: Express.Multer.File[];
-  file?: Express.Multer.File;
-  processedImages?: ProcessedImage[];
-}
-
 export interface ProcessedImage {
   url: string;
   order: number;
@@ -61,11 +48,12 @@ export enum PropertyType {
 
 // Location type
 export interface Location {
-  address: string;
-  city: string;
-  state: string;
-  country: string;
-  postalCode: string;
+  address: string; // Free text as entered
+  city: string | null;
+  region: string | null;
+  country: string | null; // ISO 3166-1 alpha-2 when known
+  latitude: number | null;
+  longitude: number | null;
 }
 
 // Details types
@@ -78,22 +66,24 @@ export interface VehicleDetails {
   vehicleType: VehicleType;
   make: string;
   model: string;
-  year: string;
-  mileage?: string;
-  fuelType?: string;
-  transmissionType?: string;
-  color?: string;
-  condition?: string;
+  year: number | null;
+  mileage?: number | null; // In mileageUnit
+  mileageUnit?: 'KM' | 'MILES';
+  fuelType?: string | null;
+  transmissionType?: string | null;
+  color?: string | null;
+  condition?: string | null;
   features?: string[];
 }
 
 export interface RealEstateDetails {
   propertyType: PropertyType;
-  size?: string;
-  yearBuilt?: string;
-  bedrooms?: string;
-  bathrooms?: string;
-  condition?: string;
+  size?: number | null; // In sizeUnit
+  sizeUnit?: 'SQM' | 'SQFT';
+  yearBuilt?: number | null;
+  bedrooms?: number | null;
+  bathrooms?: number | null;
+  condition?: string | null;
   features?: string[];
 }
 
@@ -115,6 +105,7 @@ export interface ListingBase {
   details: ListingDetails;
   listingAction?: 'sell' | 'rent';
   status: ListingStatus;
+  favorite?: boolean; // Only set when the request is authenticated
 }
 
 // Listing with relations
@@ -141,9 +132,11 @@ export interface APIResponse<T = any> {
 export interface PaginatedData<T> {
   items: T[];
   total: number;
-  page: number;
+  page?: number; // Only on page-number requests
   limit: number;
   hasMore: boolean;
+  // Send back as `cursor` to get the next page; null on the last page
+  nextCursor?: string | null;
 }
 
 export interface PaginatedResponse<T> extends APIResponse<PaginatedData<T>> {}
@@ -0,0 +1,140 @@
+import prisma from "../src/lib/prismaClient.js";
+import { deleteFromR2 } from "../config/cloudflareR2.js";
+import { revokeAllSessions } from "./token.utils.js";
+
+export const ACCOUNT_DELETION_GRACE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Soft delete: the account disappears and is signed out everywhere, but
+// signing in again before the grace period ends cancels the deletion.
+export const scheduleAccountDeletion = async (
+  userId: string,
+  graceMs: number = ACCOUNT_DELETION_GRACE_MS,
+) => {
+  const now = new Date();
+  const deletionScheduledFor = new Date(now.getTime() + graceMs);
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deletionRequestedAt: now, deletionScheduledFor },
+  });
+  await revokeAllSessions(userId, "ACCOUNT_DELETED");
+
+  return deletionScheduledFor;
+};
+
+// Returns true when a pending deletion was cancelled
+export const cancelAccountDeletion = async (userId: string) => {
+  const cancelled = await prisma.user.updateMany({
+    where: { id: userId, deletionRequestedAt: { not: null } },
+    data: { deletionRequestedAt: null, deletionScheduledFor: null },
+  });
+  return cancelled.count > 0;
+};
+
+/**
+ * Permanently remove a user scheduled for deletion and everything that
+ * references them. Rows go in one transaction, children before parents; R2
+ * objects are removed only after the commit, so a failed purge never leaves
+ * listings without images.
+ */
+export const purgeUserAccount = async (userId: string) => {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, deletionScheduledFor: { not: null } },
+    select: {
+      id: true,
+      profilePicture: true,
+      listings: { select: { id: true, images: { select: { url: true } } } },
+    },
+  });
+
+  if (!user) {
+    return;
+  }
+
+  const listingIds = user.listings.map((listing) => listing.id);
+  const imageUrls = [
+    ...user.listings.flatMap((listing) => listing.images.map((image) => image.url)),
+    ...(user.profilePicture ? [user.profilePicture] : []),
+  ];
+
+  await prisma.$transaction(async (tx) => {
+    // Conversations the user took part in or that are about their listings
+    const conversations = await tx.conversation.findMany({
+      where: {
+        OR: [
+          { participants: { some: { id: userId } } },
+          { listingId: { in: listingIds } },
+        ],
+      },
+      select: { id: true },
+    });
+    const conversationIds = conversations.map((conversation) => conversation.id);
+
+    await tx.message.deleteMany({
+      where: {
+        OR: [
+          { conversationId: { in: conversationIds } },
+          { senderId: userId },
+          { recipientId: userId },
+        ],
+      },
+    });
+    await tx.conversationReport.deleteMany({
+      where: {
+        OR: [{ conversationId: { in: conversationIds } }, { reporterId: userId }],
+      },
+    });
+    await tx.conversation.deleteMany({ where: { id: { in: conversationIds } } });
+
+    await tx.favorite.deleteMany({
+      where: { OR: [{ userId }, { listingId: { in: listingIds } }] },
+    });
+
+    const byListing = { where: { listingId: { in: listingIds } } };
+    await tx.image.deleteMany(byListing);
+    await tx.attribute.deleteMany(byListing);
+    await tx.feature.deleteMany(byListing);
+    await tx.vehicleDetails.deleteMany(byListing);
+    await tx.realEstateDetails.deleteMany(byListing);
+    await tx.listing.deleteMany({ where: { id: { in: listingIds } } });
+
+    await tx.notification.deleteMany({ where: { userId } });
+    await tx.session.deleteMany({ where: { userId } });
+
+    // Tokens, identities, recovery codes, login challenges and login history
+    // cascade. If the deletion was cancelled meanwhile, roll everything back.
+    const deleted = await tx.user.deleteMany({
+      where: { id: userId, deletionScheduledFor: { not: null } },
+    });
+    if (deleted.count === 0) {
+      throw new Error("Account deletion was cancelled during the purge");
+    }
+  }, { timeout: 60 * 1000 });
+
+  const results = await Promise.allSettled(imageUrls.map((url) => deleteFromR2(url)));
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      console.error(`Failed to delete ${imageUrls[index]} from R2:`, result.reason);
+    }
+  });
+};
+
+// Purge every account whose grace period has ended; returns how many went
+export const purgeDueAccounts = async (now: Date = new Date()) => {
+  const due = await prisma.user.findMany({
+    where: { deletionScheduledFor: { lte: now } },
+    select: { id: true },
+  });
+
+  let purged = 0;
+  for (const { id } of due) {
+    try {
+      await purgeUserAccount(id);
+      purged++;
+    } catch (error) {
+      // Leave it scheduled; the next run tries again
+      console.error(`Failed to purge account ${id}:`, error);
+    }
+  }
+  return purged;
+};
@@ -0,0 +1,22 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+
+/**
+ * Run `work` in a transaction that holds a Postgres advisory lock on `key`.
+ * The lock is released with the transaction, so it cannot leak; when another
+ * instance already holds it, `work` is skipped and null is returned.
+ */
+export const withAdvisoryLock = async <T>(
+  db: PrismaClient,
+  key: number,
+  work: (tx: Prisma.TransactionClient) => Promise<T>,
+  timeoutMs = 60 * 1000
+): Promise<T | null> =>
+  db.$transaction(
+    async (tx) => {
+      const [{ locked }] = await tx.$queryRaw<{ locked: boolean }[]>`
+        SELECT pg_try_advisory_xact_lock(${key}::bigint) AS locked
+      `;
+      return locked ? work(tx) : null;
+    },
+    { timeout: timeoutMs }
+  );
@@ -0,0 +1,27 @@
+import { Prisma } from "@prisma/client";
+import prismaClient from "../src/lib/prismaClient.js";
+
+export interface AuditEvent {
+   actorId: string;
+   action: string;
+   targetType: string;
+   targetId: string;
+   metadata?: Prisma.InputJsonValue;
+}
+
+// Record a privileged action; pass a transaction client to make the entry
+// part of the same transaction as the change it describes
+export const recordAuditEvent = async (
+   event: AuditEvent,
+   client: Prisma.TransactionClient = prismaClient
+) => {
+   return client.auditLog.create({
+      data: {
+         actorId: event.actorId,
+         action: event.action,
+         targetType: event.targetType,
+         targetId: event.targetId,
+         metadata: event.metadata,
+      },
+   });
+};
@@ -0,0 +1,41 @@
+import { sendMail } from "../config/mailer.js";
+import { env } from "../config/env.js";
+import { signPurposeToken } from "./token.utils.js";
+
+const EMAIL_VERIFICATION_EXPIRY = "24h";
+
+export interface EmailVerificationPayload {
+  id: string;
+  email: string;
+}
+
+// The email is part of the token so changing it invalidates older links
+export const createEmailVerificationToken = (user: EmailVerificationPayload) =>
+  signPurposeToken(
+    "email-verification",
+    { id: user.id, email: user.email },
+    EMAIL_VERIFICATION_EXPIRY,
+  );
+
+export const sendVerificationEmail = async (user: EmailVerificationPayload) => {
+  const token = createEmailVerificationToken(user);
+  const link = `${env.FRONTEND_URL}/verify-email?token=${encodeURIComponent(token)}`;
+
+  return sendMail({
+    to: user.email,
+    subject: "Verify your Tijara email address",
+    text: `Welcome to Tijara!\n\nConfirm your email address by opening this link:\n${link}\n\nThe link expires in 24 hours.`,
+    html: `<p>Welcome to Tijara!</p><p>Confirm your email address by opening <a href="${link}">this link</a>.</p><p>The link expires in 24 hours.</p>`,
+  });
+};
+
+export const sendPasswordResetEmail = async (email: string, token: string) => {
+  const link = `${env.FRONTEND_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+  return sendMail({
+    to: email,
+    subject: "Reset your Tijara password",
+    text: `Someone asked to reset the password for your Tijara account.\n\nChoose a new password here:\n${link}\n\nThe link expires in 1 hour and can be used once. If you did not ask for this, you can ignore this email.`,
+    html: `<p>Someone asked to reset the password for your Tijara account.</p><p><a href="${link}">Choose a new password</a>.</p><p>The link expires in 1 hour and can be used once. If you did not ask for this, you can ignore this email.</p>`,
+  });
+};
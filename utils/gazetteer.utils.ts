@@ -0,0 +1,147 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { env } from "../config/env.js";
+
+/**
+ * Offline lookup of free-text locations ("Jeddah", "حمص، سوريا") from the
+ * TSV files in GAZETTEER_DIR, or the copy shipped next to the code. Loaded
+ * on first use; no network calls.
+ */
+
+// assets/gazetteer beside the source tree, or beside dist/ once built
+const BUNDLED_GAZETTEER_DIR = fileURLToPath(new URL("../assets/gazetteer", import.meta.url));
+
+export interface GazetteerPlace {
+  city: string;
+  region: string;
+  country: string; // ISO 3166-1 alpha-2
+  latitude: number;
+  longitude: number;
+  population: number;
+}
+
+interface Gazetteer {
+  cities: Map<string, GazetteerPlace[]>;
+  countries: Map<string, string>;
+}
+
+// Case, Latin accents, Arabic diacritics and letter variants (أ/إ/آ, ة/ه,
+// ى/ي) and punctuation are ignored when matching names
+export const normalizePlaceName = (name: string) =>
+  name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f\u064b-\u065f\u0670]/g, "")
+    .replace(/[أإآ]/g, "ا")
+    .replace(/ة/g, "ه")
+    .replace(/ى/g, "ي")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+// Rows keyed by the header line; "#" lines are comments
+const readTsv = (file: string): Record<string, string>[] => {
+  const lines = fs
+    .readFileSync(file, "utf8")
+    .split(/\r?\n/)
+    .filter((line) => line.trim() && !line.startsWith("#"));
+  const [header, ...rows] = lines.map((line) => line.split("\t"));
+  return rows.map((cells) =>
+    Object.fromEntries(header.map((column, index) => [column, cells[index]?.trim() ?? ""]))
+  );
+};
+
+const names = (row: Record<string, string>, ...columns: string[]) =>
+  columns
+    .flatMap((column) => (row[column] ?? "").split(","))
+    .map(normalizePlaceName)
+    .filter(Boolean);
+
+const loadGazetteer = (dir: string): Gazetteer => {
+  const countries = new Map<string, string>();
+  for (const row of readTsv(path.resolve(dir, "countries.tsv"))) {
+    for (const name of names(row, "code", "name", "alternateNames")) {
+      countries.set(name, row.code);
+    }
+  }
+
+  const cities = new Map<string, GazetteerPlace[]>();
+  for (const row of readTsv(path.resolve(dir, "cities.tsv"))) {
+    const place: GazetteerPlace = {
+      city: row.name,
+      region: row.region,
+      country: row.country,
+      latitude: Number(row.latitude),
+      longitude: Number(row.longitude),
+      population: Number(row.population) || 0,
+    };
+    for (const name of new Set(names(row, "name", "alternateNames"))) {
+      cities.set(name, [...(cities.get(name) ?? []), place]);
+    }
+  }
+
+  return { cities, countries };
+};
+
+// Without the files nothing resolves; places are saved unresolved instead
+// of failing the request
+const loadGazetteerOrEmpty = (): Gazetteer => {
+  const dir = env.GAZETTEER_DIR ?? BUNDLED_GAZETTEER_DIR;
+  try {
+    return loadGazetteer(dir);
+  } catch (error) {
+    console.error(`Failed to load the gazetteer from ${dir}:`, error);
+    return { cities: new Map(), countries: new Map() };
+  }
+};
+
+let gazetteer: Gazetteer | undefined;
+const getGazetteer = () => (gazetteer ??= loadGazetteerOrEmpty());
+
+// ISO code for a country name, alternate name or code
+export const findCountry = (name: string): string | null =>
+  getGazetteer().countries.get(normalizePlaceName(name)) ?? null;
+
+export interface ResolvedLocation {
+  country: string | null;
+  region: string | null;
+  city: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+/**
+ * Resolve free text to a place. The text is read as comma-separated parts
+ * ("Dubai Marina, Dubai, UAE"); a part naming a country, or `country`,
+ * narrows the cities considered, and the first part naming a city wins.
+ * Same-named cities go to the most populous. Text naming only a country
+ * resolves without coordinates; null when nothing is recognised.
+ */
+export const resolveLocation = (text: string, country?: string): ResolvedLocation | null => {
+  const { cities, countries } = getGazetteer();
+  const parts = text.split(/[,،;\n]/).map(normalizePlaceName).filter(Boolean);
+
+  const countryCode =
+    (country && findCountry(country)) ||
+    parts.map((part) => countries.get(part)).find(Boolean) ||
+    null;
+
+  for (const part of parts) {
+    const [place] = (cities.get(part) ?? [])
+      .filter((candidate) => !countryCode || candidate.country === countryCode)
+      .sort((a, b) => b.population - a.population);
+    if (place) {
+      return {
+        country: place.country,
+        region: place.region,
+        city: place.city,
+        latitude: place.latitude,
+        longitude: place.longitude,
+      };
+    }
+  }
+
+  return countryCode
+    ? { country: countryCode, region: null, city: null, latitude: null, longitude: null }
+    : null;
+};
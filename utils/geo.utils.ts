@@ -0,0 +1,122 @@
+import { ResolvedLocation, findCountry, resolveLocation } from "./gazetteer.utils.js";
+
+export const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle (haversine) distance
+export const distanceKm = (from: Coordinates, to: Coordinates) => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+// A latitude/longitude box containing every point within `radiusKm`, for
+// an indexed prefilter before the exact distance check
+export const boundingBox = ({ latitude, longitude }: Coordinates, radiusKm: number) => {
+  const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const cosLat = Math.cos(toRadians(latitude));
+  const lngDelta =
+    cosLat < 1e-6 ? 180 : Math.min(180, radiusKm / (KM_PER_DEGREE_LATITUDE * cosLat));
+
+  return {
+    latitude: { gte: Math.max(-90, latitude - latDelta), lte: Math.min(90, latitude + latDelta) },
+    longitude: {
+      gte: Math.max(-180, longitude - lngDelta),
+      lte: Math.min(180, longitude + lngDelta),
+    },
+  };
+};
+
+export const isValidCoordinates = ({ latitude, longitude }: Coordinates) =>
+  Number.isFinite(latitude) &&
+  Number.isFinite(longitude) &&
+  Math.abs(latitude) <= 90 &&
+  Math.abs(longitude) <= 180;
+
+// "33.51,36.27"
+export const parseCoordinates = (value: string): Coordinates | null => {
+  const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) {
+    return null;
+  }
+  const coordinates = { latitude: Number(match[1]), longitude: Number(match[2]) };
+  return isValidCoordinates(coordinates) ? coordinates : null;
+};
+
+// Coordinates shown to other users are rounded to about a kilometre so an
+// exact pin never reveals an address. Distances shown to them are measured
+// from the rounded point too, or a few searches would trilaterate the pin.
+export const PUBLIC_COORDINATE_DECIMALS = 2;
+
+export const publicCoordinate = (value: number | null) =>
+  value === null
+    ? null
+    : Math.round(value * 10 ** PUBLIC_COORDINATE_DECIMALS) / 10 ** PUBLIC_COORDINATE_DECIMALS;
+
+// Furthest a rounded point can be from the exact one (half a hundredth of a
+// degree on both axes, rounded up)
+export const PUBLIC_COORDINATE_ERROR_KM = 1;
+
+export interface PlaceInput {
+  location?: string | null;
+  city?: string | null;
+  region?: string | null;
+  country?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export const placeErrors = ({ latitude, longitude }: PlaceInput): string[] => {
+  if (latitude == null && longitude == null) {
+    return [];
+  }
+  if (latitude == null || longitude == null) {
+    return ["Latitude and longitude must be given together"];
+  }
+  return isValidCoordinates({ latitude, longitude })
+    ? []
+    : ["Latitude must be between -90 and 90 and longitude between -180 and 180"];
+};
+
+/**
+ * The structured location columns for the location fields that were sent.
+ * Sent text replaces the whole place, filled in from the gazetteer where the
+ * caller left gaps (a place that no longer resolves is cleared rather than
+ * left stale); sent coordinates always win. Coordinates alone only move
+ * the pin. Undefined when no location field was sent.
+ */
+export const placeFields = (input: PlaceInput): Partial<ResolvedLocation> | undefined => {
+  const textSent = [input.location, input.city, input.region, input.country].some(
+    (value) => value !== undefined
+  );
+  const coordinates =
+    input.latitude != null && input.longitude != null
+      ? { latitude: input.latitude, longitude: input.longitude }
+      : undefined;
+
+  if (!textSent) {
+    return coordinates;
+  }
+
+  const text = [input.city, input.region].filter(Boolean).join(", ") || input.location || "";
+  const resolved = text ? resolveLocation(text, input.country ?? undefined) : null;
+
+  return {
+    country: input.country ? (findCountry(input.country) ?? input.country) : (resolved?.country ?? null),
+    region: input.region || resolved?.region || null,
+    city: input.city || resolved?.city || null,
+    latitude: resolved?.latitude ?? null,
+    longitude: resolved?.longitude ?? null,
+    ...coordinates,
+  };
+};
@@ -0,0 +1,463 @@
+import { AreaUnit, DistanceUnit, Prisma, PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import {
+  Condition,
+  FuelType,
+  TransmissionType,
+  VehicleType,
+} from "../types/enums.js";
+import {
+  BROWSABLE_LISTING_STATUSES,
+  VIEWABLE_LISTING_STATUSES,
+} from "./listingLifecycle.utils.js";
+import { toKilometres, toSquareMetres } from "./measurements.utils.js";
+import {
+  Coordinates,
+  EARTH_RADIUS_KM,
+  PUBLIC_COORDINATE_DECIMALS,
+  PUBLIC_COORDINATE_ERROR_KM,
+  boundingBox,
+} from "./geo.utils.js";
+import { CursorPosition, CursorSort } from "./pagination.utils.js";
+
+// Listings anyone may open: in a viewable state, not hidden by a moderator
+// and not owned by an account that is pending deletion
+export const publicListingWhere: Prisma.ListingWhereInput = {
+  status: { in: [...VIEWABLE_LISTING_STATUSES] },
+  hiddenAt: null,
+  user: { deletionRequestedAt: null },
+};
+
+// Listings shown in browse, search and trending
+export const browsableListingWhere: Prisma.ListingWhereInput = {
+  ...publicListingWhere,
+  status: { in: [...BROWSABLE_LISTING_STATUSES] },
+};
+
+const text = z.string().trim().min(1).max(100);
+// Query strings deliver numbers as text
+const year = z.coerce.number().int().min(1900).max(2100);
+const buildYear = z.coerce.number().int().min(1800).max(2100);
+const amount = z.coerce.number().nonnegative();
+
+// Filters on the vehicle and real-estate detail records
+export const listingDetailFiltersSchema = z
+  .object({
+    vehicles: z
+      .object({
+        vehicleType: z.nativeEnum(VehicleType),
+        make: text,
+        model: text,
+        fuelType: z.nativeEnum(FuelType),
+        transmissionType: z.nativeEnum(TransmissionType),
+        condition: z.nativeEnum(Condition),
+        minYear: year,
+        maxYear: year,
+        minMileage: amount,
+        maxMileage: amount,
+        // Unit of minMileage/maxMileage; kilometres when omitted
+        mileageUnit: z.nativeEnum(DistanceUnit),
+      })
+      .partial()
+      .strict(),
+    realEstate: z
+      .object({
+        propertyType: text,
+        condition: text,
+        minBedrooms: amount,
+        minBathrooms: amount,
+        minSize: amount,
+        maxSize: amount,
+        // Unit of minSize/maxSize; square metres when omitted
+        sizeUnit: z.nativeEnum(AreaUnit),
+        minYearBuilt: buildYear,
+        maxYearBuilt: buildYear,
+      })
+      .partial()
+      .strict(),
+  })
+  .partial()
+  .strict();
+
+export type ListingDetailFilters = z.infer<typeof listingDetailFiltersSchema>;
+
+const equalsIgnoringCase = (value: string) => ({
+  equals: value,
+  mode: "insensitive" as const,
+});
+
+const range = (min?: number, max?: number, normalize = (value: number) => value) =>
+  (min !== undefined || max !== undefined) && {
+    gte: min === undefined ? undefined : normalize(min),
+    lte: max === undefined ? undefined : normalize(max),
+  };
+
+// Filters on the detail records; mileage and size compare in km and m²
+export const buildDetailFiltersWhere = (
+  filters: ListingDetailFilters | undefined
+): Prisma.ListingWhereInput => {
+  const vehicles = filters?.vehicles;
+  const realEstate = filters?.realEstate;
+  const vehicleYear = range(vehicles?.minYear, vehicles?.maxYear);
+  const mileage = range(vehicles?.minMileage, vehicles?.maxMileage, (value) =>
+    toKilometres(value, vehicles?.mileageUnit ?? DistanceUnit.KM)
+  );
+  const size = range(realEstate?.minSize, realEstate?.maxSize, (value) =>
+    toSquareMetres(value, realEstate?.sizeUnit ?? AreaUnit.SQM)
+  );
+  const yearBuilt = range(realEstate?.minYearBuilt, realEstate?.maxYearBuilt);
+
+  return {
+    ...(vehicles &&
+      Object.keys(vehicles).length > 0 && {
+        vehicleDetails: {
+          is: {
+            ...(vehicles.vehicleType && { vehicleType: vehicles.vehicleType }),
+            ...(vehicles.make && { make: equalsIgnoringCase(vehicles.make) }),
+            ...(vehicles.model && { model: equalsIgnoringCase(vehicles.model) }),
+            ...(vehicles.fuelType && { fuelType: vehicles.fuelType }),
+            ...(vehicles.transmissionType && {
+              transmissionType: vehicles.transmissionType,
+            }),
+            ...(vehicles.condition && { condition: vehicles.condition }),
+            ...(vehicleYear && { year: vehicleYear }),
+            ...(mileage && { mileage }),
+          },
+        },
+      }),
+    ...(realEstate &&
+      Object.keys(realEstate).length > 0 && {
+        realEstateDetails: {
+          is: {
+            ...(realEstate.propertyType && {
+              propertyType: equalsIgnoringCase(realEstate.propertyType),
+            }),
+            ...(realEstate.condition && {
+              condition: equalsIgnoringCase(realEstate.condition),
+            }),
+            ...(realEstate.minBedrooms !== undefined && {
+              bedrooms: { gte: realEstate.minBedrooms },
+            }),
+            ...(realEstate.minBathrooms !== undefined && {
+              bathrooms: { gte: realEstate.minBathrooms },
+            }),
+            ...(size && { size }),
+            ...(yearBuilt && { yearBuilt }),
+          },
+        },
+      }),
+  };
+};
+
+// What a buyer can search by; saved searches store the same criteria
+export interface ListingSearchCriteria {
+  query?: string;
+  mainCategory?: string;
+  subCategory?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  filters?: ListingDetailFilters;
+}
+
+// Browsable listings matching every criterion except the text `query`,
+// which is matched against the full-text index (see findTextMatches, which
+// applies the same criteria in SQL)
+export const buildSearchWhere = (
+  criteria: ListingSearchCriteria
+): Prisma.ListingWhereInput => ({
+  ...browsableListingWhere,
+  ...(criteria.mainCategory && { mainCategory: criteria.mainCategory }),
+  ...(criteria.subCategory && { subCategory: criteria.subCategory }),
+  ...((criteria.minPrice !== undefined || criteria.maxPrice !== undefined) && {
+    price: { gte: criteria.minPrice, lte: criteria.maxPrice },
+  }),
+  ...buildDetailFiltersWhere(criteria.filters),
+});
+
+const MAX_QUERY_TERMS = 10;
+
+/**
+ * Turn free text into a prefix tsquery: every word must match the start of
+ * a word in the listing, so "toy cor" finds "Toyota Corolla". Returns null
+ * when the text has no searchable words.
+ */
+export const toPrefixTsQuery = (text: string) => {
+  const terms = text.toLowerCase().replace(/['’]/g, "").match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (terms.length === 0) {
+    return null;
+  }
+  return terms
+    .slice(0, MAX_QUERY_TERMS)
+    .map((term) => `${term}:*`)
+    .join(" & ");
+};
+
+const sqlRange = (column: Prisma.Sql, bounds: { gte?: number; lte?: number } | false) =>
+  bounds
+    ? [
+        ...(bounds.gte !== undefined ? [Prisma.sql`${column} >= ${bounds.gte}`] : []),
+        ...(bounds.lte !== undefined ? [Prisma.sql`${column} <= ${bounds.lte}`] : []),
+      ]
+    : [];
+
+const sqlEqualsIgnoringCase = (column: Prisma.Sql, value: string) =>
+  Prisma.sql`lower(${column}) = lower(${value})`;
+
+/**
+ * buildSearchWhere as SQL conditions over "Listing" l, its owner u and its
+ * detail records v and r, so text matches can be filtered, ranked, counted
+ * and paged in one query. Keep the two in step.
+ */
+const searchConditions = (criteria: ListingSearchCriteria): Prisma.Sql[] => {
+  const vehicles = criteria.filters?.vehicles;
+  const realEstate = criteria.filters?.realEstate;
+
+  return [
+    Prisma.sql`l."status"::text IN (${Prisma.join([...BROWSABLE_LISTING_STATUSES])})`,
+    Prisma.sql`l."hiddenAt" IS NULL`,
+    Prisma.sql`u."deletionRequestedAt" IS NULL`,
+    ...(criteria.mainCategory ? [Prisma.sql`l."mainCategory" = ${criteria.mainCategory}`] : []),
+    ...(criteria.subCategory ? [Prisma.sql`l."subCategory" = ${criteria.subCategory}`] : []),
+    ...sqlRange(Prisma.sql`l."price"`, range(criteria.minPrice, criteria.maxPrice)),
+    ...(vehicles && Object.keys(vehicles).length > 0
+      ? [
+          Prisma.sql`v."id" IS NOT NULL`,
+          ...(vehicles.vehicleType
+            ? [Prisma.sql`v."vehicleType"::text = ${vehicles.vehicleType}`]
+            : []),
+          ...(vehicles.make ? [sqlEqualsIgnoringCase(Prisma.sql`v."make"`, vehicles.make)] : []),
+          ...(vehicles.model ? [sqlEqualsIgnoringCase(Prisma.sql`v."model"`, vehicles.model)] : []),
+          ...(vehicles.fuelType ? [Prisma.sql`v."fuelType"::text = ${vehicles.fuelType}`] : []),
+          ...(vehicles.transmissionType
+            ? [Prisma.sql`v."transmissionType"::text = ${vehicles.transmissionType}`]
+            : []),
+          ...(vehicles.condition ? [Prisma.sql`v."condition"::text = ${vehicles.condition}`] : []),
+          ...sqlRange(Prisma.sql`v."year"`, range(vehicles.minYear, vehicles.maxYear)),
+          ...sqlRange(
+            Prisma.sql`v."mileage"`,
+            range(vehicles.minMileage, vehicles.maxMileage, (value) =>
+              toKilometres(value, vehicles.mileageUnit ?? DistanceUnit.KM)
+            )
+          ),
+        ]
+      : []),
+    ...(realEstate && Object.keys(realEstate).length > 0
+      ? [
+          Prisma.sql`r."id" IS NOT NULL`,
+          ...(realEstate.propertyType
+            ? [sqlEqualsIgnoringCase(Prisma.sql`r."propertyType"`, realEstate.propertyType)]
+            : []),
+          ...(realEstate.condition
+            ? [sqlEqualsIgnoringCase(Prisma.sql`r."condition"`, realEstate.condition)]
+            : []),
+          ...sqlRange(Prisma.sql`r."bedrooms"`, range(realEstate.minBedrooms)),
+          ...sqlRange(Prisma.sql`r."bathrooms"`, range(realEstate.minBathrooms)),
+          ...sqlRange(
+            Prisma.sql`r."size"`,
+            range(realEstate.minSize, realEstate.maxSize, (value) =>
+              toSquareMetres(value, realEstate.sizeUnit ?? AreaUnit.SQM)
+            )
+          ),
+          ...sqlRange(
+            Prisma.sql`r."yearBuilt"`,
+            range(realEstate.minYearBuilt, realEstate.maxYearBuilt)
+          ),
+        ]
+      : []),
+  ];
+};
+
+// A circle around `origin`, matched against the listings' public
+// (rounded) coordinates
+export interface ListingArea {
+  origin: Coordinates;
+  radiusKm: number;
+}
+
+// Haversine distance in km from `origin` to the listing's public point
+const sqlDistanceKm = ({ latitude, longitude }: Coordinates) => {
+  const decimals = Prisma.raw(String(PUBLIC_COORDINATE_DECIMALS));
+  const lat = Prisma.sql`radians(round(l."latitude"::numeric, ${decimals})::float8)`;
+  const lng = Prisma.sql`radians(round(l."longitude"::numeric, ${decimals})::float8)`;
+  const originLat = Prisma.sql`radians(${latitude}::float8)`;
+  const originLng = Prisma.sql`radians(${longitude}::float8)`;
+  return Prisma.sql`(2 * ${EARTH_RADIUS_KM}::float8 * asin(least(1, sqrt(
+    power(sin((${lat} - ${originLat}) / 2), 2) +
+    cos(${originLat}) * cos(${lat}) * power(sin((${lng} - ${originLng}) / 2), 2)
+  ))))`;
+};
+
+// The bounding box uses the indexed exact columns, widened by how far
+// rounding can move a point; the distance check is exact
+const areaConditions = ({ origin, radiusKm }: ListingArea): Prisma.Sql[] => {
+  const box = boundingBox(origin, radiusKm + PUBLIC_COORDINATE_ERROR_KM);
+  return [
+    Prisma.sql`l."latitude" BETWEEN ${box.latitude.gte} AND ${box.latitude.lte}`,
+    Prisma.sql`l."longitude" BETWEEN ${box.longitude.gte} AND ${box.longitude.lte}`,
+    Prisma.sql`${sqlDistanceKm(origin)} <= ${radiusKm}::float8`,
+  ];
+};
+
+export interface ListingMatchOptions {
+  criteria?: ListingSearchCriteria;
+  // Prefix tsquery from toPrefixTsQuery
+  tsQuery?: string | null;
+  area?: ListingArea;
+}
+
+const listingMatchesFrom = (
+  { criteria = {}, tsQuery, area }: ListingMatchOptions,
+  listingId?: string
+) => Prisma.sql`
+  FROM "Listing" l
+  JOIN "User" u ON u."id" = l."userId"
+  LEFT JOIN "VehicleDetails" v ON v."listingId" = l."id"
+  LEFT JOIN "RealEstateDetails" r ON r."listingId" = l."id"
+  ${tsQuery ? Prisma.sql`, to_tsquery('simple', ${tsQuery}) AS query` : Prisma.empty}
+  WHERE ${Prisma.join(
+    [
+      ...(tsQuery ? [Prisma.sql`l."searchVector" @@ query`] : []),
+      ...searchConditions(criteria),
+      ...(area ? areaConditions(area) : []),
+      ...(listingId ? [Prisma.sql`l."id" = ${listingId}`] : []),
+    ],
+    " AND "
+  )}
+`;
+
+/**
+ * Ids of browsable listings whose search document matches `tsQuery` and
+ * that meet `criteria`, best match first (title hits outrank make/model and
+ * property type, which outrank the description).
+ */
+export const findTextMatches = async (
+  db: PrismaClient | Prisma.TransactionClient,
+  tsQuery: string,
+  {
+    criteria = {},
+    limit,
+    offset = 0,
+  }: { criteria?: ListingSearchCriteria; limit: number; offset?: number }
+) => {
+  const rows = await db.$queryRaw<{ id: string }[]>`
+    SELECT l."id"
+    ${listingMatchesFrom({ criteria, tsQuery })}
+    ORDER BY ts_rank(l."searchVector", query) DESC, l."createdAt" DESC, l."id" DESC
+    LIMIT ${limit} OFFSET ${offset}
+  `;
+  return rows.map((row) => row.id);
+};
+
+/**
+ * Which of `searches` one listing meets, text included, in a single query:
+ * each search's criteria are checked against that listing alone.
+ */
+export const findSearchesMatching = async (
+  db: PrismaClient | Prisma.TransactionClient,
+  listingId: string,
+  searches: { id: string; criteria: ListingSearchCriteria }[]
+) => {
+  if (searches.length === 0) {
+    return [];
+  }
+  const rows = await db.$queryRaw<{ id: string }[]>(
+    Prisma.join(
+      searches.map(({ id, criteria }) => {
+        const tsQuery = criteria.query ? toPrefixTsQuery(criteria.query) : null;
+        return Prisma.sql`
+          SELECT ${id}::text AS id
+          ${listingMatchesFrom({ criteria, tsQuery }, listingId)}
+        `;
+      }),
+      " UNION ALL "
+    )
+  );
+  return rows.map((row) => row.id);
+};
+
+export const countListingMatches = async (
+  db: PrismaClient | Prisma.TransactionClient,
+  options: ListingMatchOptions
+) => {
+  const [{ count }] = await db.$queryRaw<{ count: number }[]>`
+    SELECT COUNT(*)::int AS count
+    ${listingMatchesFrom(options)}
+  `;
+  return count;
+};
+
+export type AreaSortField = "distance" | "favorites" | "createdAt" | "price";
+
+export interface ListingInArea {
+  id: string;
+  distance: number;
+  createdAt: Date;
+  price: number;
+}
+
+const areaSortColumns: Record<AreaSortField, Prisma.Sql> = {
+  distance: Prisma.sql`distance`,
+  favorites: Prisma.sql`(SELECT COUNT(*) FROM "Favorite" f WHERE f."listingId" = l."id")`,
+  createdAt: Prisma.sql`l."createdAt"`,
+  price: Prisma.sql`l."price"`,
+};
+
+/**
+ * One page of listings within `area` that meet `criteria`, with their
+ * distance in km. `after` continues a createdAt or price sort from a
+ * cursor position (see pagination.utils).
+ */
+export const findListingsInArea = async (
+  db: PrismaClient | Prisma.TransactionClient,
+  area: ListingArea,
+  {
+    criteria = {},
+    sort,
+    after,
+    limit,
+    offset = 0,
+  }: {
+    criteria?: ListingSearchCriteria;
+    sort: CursorSort<AreaSortField>;
+    after?: CursorPosition | null;
+    limit: number;
+    offset?: number;
+  }
+) => {
+  const column = areaSortColumns[sort.field];
+  const direction = Prisma.raw(sort.direction === "desc" ? "DESC" : "ASC");
+  const beyond = Prisma.raw(sort.direction === "desc" ? "<" : ">");
+
+  return db.$queryRaw<ListingInArea[]>`
+    SELECT l."id", l."createdAt", l."price", ${sqlDistanceKm(area.origin)} AS distance
+    ${listingMatchesFrom({ criteria, area })}
+    ${after ? Prisma.sql`AND (${column}, l."id") ${beyond} (${after.value}, ${after.id})` : Prisma.empty}
+    ORDER BY ${column} ${direction}, l."id" ${direction}
+    LIMIT ${limit} OFFSET ${offset}
+  `;
+};
+
+// A vehicle or real-estate detail column that listings can be counted by
+export interface ListingValueColumn {
+  detail: "vehicles" | "realEstate";
+  field: string;
+}
+
+/**
+ * How many matching listings have each value of a vehicle or real-estate
+ * detail column; listings without the value are not counted. `field` must
+ * be a column name, never user input.
+ */
+export const countListingValues = async (
+  db: PrismaClient | Prisma.TransactionClient,
+  options: ListingMatchOptions,
+  { detail, field }: ListingValueColumn
+) => {
+  const column = Prisma.raw(`${detail === "vehicles" ? "v" : "r"}."${field}"`);
+  return db.$queryRaw<{ value: string; count: number }[]>`
+    SELECT ${column}::text AS value, COUNT(*)::int AS count
+    ${listingMatchesFrom(options)}
+      AND ${column} IS NOT NULL
+    GROUP BY 1
+  `;
+};
@@ -0,0 +1,79 @@
+import { ListingStatus } from "@prisma/client";
+
+export type ListingTransition =
+  | "publish"
+  | "markSold"
+  | "markRented"
+  | "archive"
+  | "relist"
+  | "renew";
+
+/**
+ * The listing state machine: each transition names the states it may start
+ * from and the state it ends in. Anything not listed here is refused.
+ */
+export const LISTING_TRANSITIONS: Record<
+  ListingTransition,
+  { from: readonly ListingStatus[]; to: ListingStatus }
+> = {
+  publish: { from: [ListingStatus.DRAFT], to: ListingStatus.ACTIVE },
+  markSold: { from: [ListingStatus.ACTIVE], to: ListingStatus.SOLD },
+  markRented: { from: [ListingStatus.ACTIVE], to: ListingStatus.RENTED },
+  archive: {
+    from: [
+      ListingStatus.DRAFT,
+      ListingStatus.ACTIVE,
+      ListingStatus.SOLD,
+      ListingStatus.RENTED,
+      ListingStatus.EXPIRED,
+    ],
+    to: ListingStatus.ARCHIVED,
+  },
+  relist: {
+    from: [
+      ListingStatus.SOLD,
+      ListingStatus.RENTED,
+      ListingStatus.EXPIRED,
+      ListingStatus.ARCHIVED,
+    ],
+    to: ListingStatus.ACTIVE,
+  },
+  // Push expiry out again, before or after the listing expired
+  renew: {
+    from: [ListingStatus.ACTIVE, ListingStatus.EXPIRED],
+    to: ListingStatus.ACTIVE,
+  },
+};
+
+// States that appear in browse, search and trending
+export const BROWSABLE_LISTING_STATUSES: readonly ListingStatus[] = [
+  ListingStatus.ACTIVE,
+];
+
+// States anyone may open by id; sold and rented listings stay reachable so
+// links in favorites and conversations keep working
+export const VIEWABLE_LISTING_STATUSES: readonly ListingStatus[] = [
+  ListingStatus.ACTIVE,
+  ListingStatus.SOLD,
+  ListingStatus.RENTED,
+];
+
+export const canTransition = (from: ListingStatus, transition: ListingTransition) =>
+  LISTING_TRANSITIONS[transition].from.includes(from);
+
+// Timestamp changes that go with entering `to`
+export const transitionTimestamps = (
+  to: ListingStatus,
+  publishedAt: Date | null,
+  now: Date = new Date(),
+) => {
+  switch (to) {
+    case ListingStatus.ACTIVE:
+      return { publishedAt: publishedAt ?? now, soldAt: null };
+    case ListingStatus.SOLD:
+    case ListingStatus.RENTED:
+      return { soldAt: now };
+    default:
+      return {};
+  }
+};
@@ -0,0 +1,191 @@
+import { Response } from "express";
+import prisma from "../src/lib/prismaClient.js";
+import { NotificationType } from "../types/enums.js";
+import { createNotification } from "./notification.utils.js";
+import { hashToken, SessionMetadata } from "./token.utils.js";
+import { cancelAccountDeletion } from "./accountDeletion.utils.js";
+
+// Failures allowed before the first lockout; each further failure doubles
+// the lockout, capped at an hour.
+const FREE_LOGIN_ATTEMPTS = 5;
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+export const getLockoutDuration = (failedAttempts: number): number => {
+  if (failedAttempts < FREE_LOGIN_ATTEMPTS) {
+    return 0;
+  }
+  const exponent = Math.min(failedAttempts - FREE_LOGIN_ATTEMPTS, 20);
+  return Math.min(BASE_LOCKOUT_MS * 2 ** exponent, MAX_LOCKOUT_MS);
+};
+
+// Milliseconds until the account accepts login attempts again
+export const getLockoutRemaining = (
+  user: { lockedUntil: Date | null },
+  now: Date = new Date(),
+): number =>
+  user.lockedUntil ? Math.max(0, user.lockedUntil.getTime() - now.getTime()) : 0;
+
+export const sendAccountLocked = (res: Response, remainingMs: number) => {
+  const retryAfter = Math.max(1, Math.ceil(remainingMs / 1000));
+  res.set("Retry-After", String(retryAfter));
+  return res.status(429).json({
+    success: false,
+    error: {
+      code: "ACCOUNT_LOCKED",
+      message: "Too many failed login attempts, please try again later",
+      retryAfter,
+    },
+  });
+};
+
+const getDeviceHash = (metadata: SessionMetadata) =>
+  metadata.userAgent ? hashToken(metadata.userAgent) : null;
+
+const loginEventData = (
+  userId: string,
+  success: boolean,
+  reason: string,
+  metadata: SessionMetadata,
+) => ({
+  userId,
+  success,
+  reason,
+  ipAddress: metadata.ipAddress,
+  userAgent: metadata.userAgent,
+  deviceHash: getDeviceHash(metadata),
+});
+
+export const recordLockedLogin = async (
+  userId: string,
+  metadata: SessionMetadata,
+) => {
+  await prisma.loginEvent.create({
+    data: loginEventData(userId, false, "ACCOUNT_LOCKED", metadata),
+  });
+};
+
+/**
+ * Count a wrong password or 2FA code against the account and lock it once
+ * the free attempts are used up. The increment is atomic so parallel
+ * attempts from different IPs all count. Returns the lock expiry, if any.
+ */
+export const recordFailedLogin = async (
+  userId: string,
+  metadata: SessionMetadata,
+  reason: "INVALID_PASSWORD" | "INVALID_TWO_FACTOR_CODE" = "INVALID_PASSWORD",
+): Promise<Date | null> => {
+  const [user] = await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginAttempts: { increment: 1 } },
+      select: { failedLoginAttempts: true },
+    }),
+    prisma.loginEvent.create({
+      data: loginEventData(userId, false, reason, metadata),
+    }),
+  ]);
+
+  const lockoutMs = getLockoutDuration(user.failedLoginAttempts);
+  if (!lockoutMs) {
+    return null;
+  }
+
+  const lockedUntil = new Date(Date.now() + lockoutMs);
+  await prisma.user.update({
+    where: { id: userId },
+    data: { lockedUntil },
+  });
+  return lockedUntil;
+};
+
+// Emails without an account get the same lockout, tracked by a hash of the
+// address, so a lockout never confirms that an account exists
+const identifierHash = (email: string) => hashToken(email.trim().toLowerCase());
+
+export const getUnknownLoginLockoutRemaining = async (
+  email: string,
+  now: Date = new Date(),
+): Promise<number> => {
+  const throttle = await prisma.loginThrottle.findUnique({
+    where: { identifierHash: identifierHash(email) },
+    select: { lockedUntil: true },
+  });
+  return throttle ? getLockoutRemaining(throttle, now) : 0;
+};
+
+export const recordFailedUnknownLogin = async (
+  email: string,
+): Promise<Date | null> => {
+  const hash = identifierHash(email);
+
+  const throttle = await prisma.loginThrottle.upsert({
+    where: { identifierHash: hash },
+    create: { identifierHash: hash, failedLoginAttempts: 1 },
+    update: { failedLoginAttempts: { increment: 1 } },
+    select: { failedLoginAttempts: true },
+  });
+
+  const lockoutMs = getLockoutDuration(throttle.failedLoginAttempts);
+  if (!lockoutMs) {
+    return null;
+  }
+
+  const lockedUntil = new Date(Date.now() + lockoutMs);
+  await prisma.loginThrottle.update({
+    where: { identifierHash: hash },
+    data: { lockedUntil },
+  });
+  return lockedUntil;
+};
+
+// Only a completed sign-in clears the failure count, never a password
+// that still waits for its 2FA code
+export const resetFailedLogins = async (userId: string) => {
+  await prisma.user.updateMany({
+    where: {
+      id: userId,
+      OR: [{ failedLoginAttempts: { gt: 0 } }, { lockedUntil: { not: null } }],
+    },
+    data: { failedLoginAttempts: 0, lockedUntil: null },
+  });
+};
+
+/**
+ * Record a completed sign-in and tell the user when it came from a device
+ * we have not seen before. The very first recorded sign-in is not treated
+ * as new, so existing accounts are not flooded with notices. Signing in
+ * during the deletion grace period cancels the pending deletion.
+ */
+export const recordSuccessfulLogin = async (
+  userId: string,
+  metadata: SessionMetadata,
+  method: "PASSWORD" | "TWO_FACTOR" | "OIDC",
+) => {
+  const deviceHash = getDeviceHash(metadata);
+
+  const [previousLogins, knownDevice] = await Promise.all([
+    prisma.loginEvent.count({ where: { userId, success: true } }),
+    deviceHash
+      ? prisma.loginEvent.findFirst({
+          where: { userId, success: true, deviceHash },
+          select: { id: true },
+        })
+      : null,
+  ]);
+
+  await prisma.loginEvent.create({
+    data: loginEventData(userId, true, method, metadata),
+  });
+  await cancelAccountDeletion(userId);
+
+  if (previousLogins > 0 && !knownDevice) {
+    const device = metadata.userAgent ?? "an unknown device";
+    const location = metadata.ipAddress ? ` (IP ${metadata.ipAddress})` : "";
+    await createNotification({
+      userId,
+      type: NotificationType.SYSTEM_NOTICE,
+      message: `New sign-in to your account from ${device}${location}. If this wasn't you, change your password and sign out of other sessions.`,
+    }).catch((error) => console.error("New device notification error:", error));
+  }
+};
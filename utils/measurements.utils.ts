@@ -0,0 +1,112 @@
+import { AreaUnit, DistanceUnit } from "@prisma/client";
+
+// Mileage is stored in kilometres and sizes in square metres, so filters
+// and sorting compare like with like; the seller's unit is kept for display
+const KM_PER_MILE = 1.609344;
+const SQM_PER_SQFT = 0.09290304;
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export const toKilometres = (value: number, unit: DistanceUnit) =>
+  Math.round(unit === DistanceUnit.MILES ? value * KM_PER_MILE : value);
+
+export const fromKilometres = (km: number, unit: DistanceUnit) =>
+  Math.round(unit === DistanceUnit.MILES ? km / KM_PER_MILE : km);
+
+// Stored with extra precision so a size entered in ft² reads back unchanged
+export const toSquareMetres = (value: number, unit: AreaUnit) =>
+  roundTo(unit === AreaUnit.SQFT ? value * SQM_PER_SQFT : value, 4);
+
+export const fromSquareMetres = (sqm: number, unit: AreaUnit) =>
+  roundTo(unit === AreaUnit.SQFT ? sqm / SQM_PER_SQFT : sqm, 2);
+
+const DISTANCE_UNITS: Record<string, DistanceUnit> = {
+  km: DistanceUnit.KM,
+  kms: DistanceUnit.KM,
+  kilometer: DistanceUnit.KM,
+  kilometers: DistanceUnit.KM,
+  kilometre: DistanceUnit.KM,
+  kilometres: DistanceUnit.KM,
+  mi: DistanceUnit.MILES,
+  mile: DistanceUnit.MILES,
+  miles: DistanceUnit.MILES,
+};
+
+const AREA_UNITS: Record<string, AreaUnit> = {
+  m2: AreaUnit.SQM,
+  "m²": AreaUnit.SQM,
+  sqm: AreaUnit.SQM,
+  "sq m": AreaUnit.SQM,
+  "square meters": AreaUnit.SQM,
+  "square metres": AreaUnit.SQM,
+  ft2: AreaUnit.SQFT,
+  "ft²": AreaUnit.SQFT,
+  sqft: AreaUnit.SQFT,
+  "sq ft": AreaUnit.SQFT,
+  "square feet": AreaUnit.SQFT,
+};
+
+// Accepts the enum value or a common spelling ("km", "miles", "m2", "sq ft")
+export const parseDistanceUnit = (value: string): DistanceUnit | null =>
+  Object.values(DistanceUnit).find((unit) => unit === value.toUpperCase()) ??
+  DISTANCE_UNITS[value.trim().toLowerCase()] ??
+  null;
+
+export const parseAreaUnit = (value: string): AreaUnit | null =>
+  Object.values(AreaUnit).find((unit) => unit === value.toUpperCase()) ??
+  AREA_UNITS[value.trim().toLowerCase().replace(/\./g, "").replace(/\s+/g, " ")] ??
+  null;
+
+// Arabic-Indic and Persian digits read as ASCII
+const toAsciiDigits = (text: string) =>
+  text
+    .replace(/[٠-٩]/g, (digit) => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, (digit) => String(digit.charCodeAt(0) - 0x06f0));
+
+/**
+ * Read a number written by hand: "120,000", "1 500", "75k", "٣". Returns
+ * null for anything else, including text around the number.
+ */
+export const parseNumberText = (text: string): number | null => {
+  const match = toAsciiDigits(text)
+    .trim()
+    .toLowerCase()
+    .match(/^(\d{1,3}(?:[,\s]\d{3})+|\d+)(\.\d+)?\s*(k)?$/);
+  if (!match) {
+    return null;
+  }
+  const value = parseFloat(match[1].replace(/[,\s]/g, "") + (match[2] ?? ""));
+  return match[3] ? value * 1000 : value;
+};
+
+// "120,000 km", "75k miles", "1500 sq ft"; a bare number takes `fallback`
+const parseWithUnit = <U>(
+  text: string,
+  parseUnit: (unit: string) => U | null,
+  fallback: U
+): { value: number; unit: U } | null => {
+  const match = text
+    .trim()
+    .match(/^([\d٠-٩۰-۹][\d٠-٩۰-۹.,\s]*?)\s*(k(?![a-z]))?\s*([^\d٠-٩۰-۹]*)$/i);
+  if (!match) {
+    return null;
+  }
+  const value = parseNumberText(match[1] + (match[2] ?? ""));
+  const unit = match[3].trim() ? parseUnit(match[3]) : fallback;
+  return value === null || unit === null ? null : { value, unit };
+};
+
+export const parseDistanceText = (text: string) =>
+  parseWithUnit(text, parseDistanceUnit, DistanceUnit.KM);
+
+export const parseAreaText = (text: string) =>
+  parseWithUnit(text, parseAreaUnit, AreaUnit.SQM);
+
+// A whole number with nothing else around it ("3", "2015")
+export const parseIntegerText = (text: string): number | null => {
+  const value = parseNumberText(text);
+  return value !== null && Number.isInteger(value) ? value : null;
+};
@@ -19,6 +19,10 @@ const mapNotificationType = (
          return "LISTING_CREATED";
       case NotificationType.SYSTEM_NOTICE:
          return "SYSTEM_NOTICE";
+      case NotificationType.LISTING_EXPIRY:
+         return "LISTING_EXPIRY";
+      case NotificationType.SAVED_SEARCH_MATCH:
+         return "SAVED_SEARCH_MATCH";
       default:
          return "SYSTEM_NOTICE";
    }
@@ -0,0 +1,183 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { OidcProviderConfig } from "../config/oidc.js";
+
+const METADATA_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+export class OidcError extends Error {
+  constructor(
+    public code: "PROVIDER_ERROR" | "INVALID_ID_TOKEN",
+    message: string
+  ) {
+    super(message);
+    this.name = "OidcError";
+  }
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface IdTokenClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  nonce?: string;
+}
+
+const metadataCache = new Map<string, { metadata: ProviderMetadata; fetchedAt: number }>();
+const keyCache = new Map<string, Map<string, crypto.KeyObject>>();
+
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new OidcError(
+      "PROVIDER_ERROR",
+      `Identity provider responded with ${response.status} for ${url}`
+    );
+  }
+  return (await response.json()) as T;
+};
+
+const getMetadata = async (provider: OidcProviderConfig) => {
+  const cached = metadataCache.get(provider.issuer);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS) {
+    return cached.metadata;
+  }
+
+  const issuer = provider.issuer.replace(/\/$/, "");
+  const metadata = await fetchJson<ProviderMetadata>(
+    `${issuer}/.well-known/openid-configuration`
+  );
+  metadataCache.set(provider.issuer, { metadata, fetchedAt: Date.now() });
+  return metadata;
+};
+
+// Keys are cached per JWKS URI and refetched when an unknown kid shows up,
+// which is how providers roll their signing keys.
+const getSigningKey = async (jwksUri: string, kid: string | undefined) => {
+  const lookup = (keys?: Map<string, crypto.KeyObject>) =>
+    kid ? keys?.get(kid) : keys?.size === 1 ? [...keys.values()][0] : undefined;
+
+  const cached = lookup(keyCache.get(jwksUri));
+  if (cached) {
+    return cached;
+  }
+
+  const { keys } = await fetchJson<{ keys: (crypto.JsonWebKey & { kid?: string; use?: string })[] }>(jwksUri);
+  const keyMap = new Map<string, crypto.KeyObject>();
+  keys
+    .filter((key) => key.kty === "RSA" && (!key.use || key.use === "sig"))
+    .forEach((key, index) => {
+      keyMap.set(key.kid ?? String(index), crypto.createPublicKey({ key, format: "jwk" }));
+    });
+  keyCache.set(jwksUri, keyMap);
+
+  const key = lookup(keyMap);
+  if (!key) {
+    throw new OidcError("INVALID_ID_TOKEN", "No signing key matches the ID token");
+  }
+  return key;
+};
+
+const base64url = (buffer: Buffer) => buffer.toString("base64url");
+
+// PKCE (RFC 7636) with the S256 challenge method
+export const createPkcePair = () => {
+  const codeVerifier = base64url(crypto.randomBytes(32));
+  const codeChallenge = base64url(
+    crypto.createHash("sha256").update(codeVerifier).digest()
+  );
+  return { codeVerifier, codeChallenge };
+};
+
+export const buildAuthorizationUrl = async (
+  provider: OidcProviderConfig,
+  params: { state: string; nonce: string; codeChallenge: string; redirectUri: string }
+) => {
+  const metadata = await getMetadata(provider);
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: provider.clientId,
+    redirect_uri: params.redirectUri,
+    scope: provider.scopes.join(" "),
+    state: params.state,
+    nonce: params.nonce,
+    code_challenge: params.codeChallenge,
+    code_challenge_method: "S256",
+  }).toString();
+  return url.toString();
+};
+
+export const exchangeAuthorizationCode = async (
+  provider: OidcProviderConfig,
+  params: { code: string; codeVerifier: string; redirectUri: string }
+) => {
+  const metadata = await getMetadata(provider);
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    client_id: provider.clientId,
+    code_verifier: params.codeVerifier,
+  });
+  if (provider.clientSecret) {
+    body.set("client_secret", provider.clientSecret);
+  }
+
+  const tokens = await fetchJson<{ id_token?: string }>(metadata.token_endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body,
+  });
+
+  if (!tokens.id_token) {
+    throw new OidcError("PROVIDER_ERROR", "Identity provider returned no ID token");
+  }
+  return tokens.id_token;
+};
+
+export const verifyIdToken = async (
+  provider: OidcProviderConfig,
+  idToken: string,
+  nonce: string
+): Promise<IdTokenClaims> => {
+  const metadata = await getMetadata(provider);
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === "string") {
+    throw new OidcError("INVALID_ID_TOKEN", "Malformed ID token");
+  }
+
+  const key = await getSigningKey(metadata.jwks_uri, decoded.header.kid);
+
+  let claims: IdTokenClaims;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ["RS256"],
+      issuer: metadata.issuer,
+      audience: provider.clientId,
+    }) as IdTokenClaims;
+  } catch (error) {
+    throw new OidcError(
+      "INVALID_ID_TOKEN",
+      error instanceof Error ? error.message : "Invalid ID token"
+    );
+  }
+
+  if (!claims.sub || claims.nonce !== nonce) {
+    throw new OidcError("INVALID_ID_TOKEN", "ID token nonce mismatch");
+  }
+  return claims;
+};
+
+// Some providers send email_verified as the string "true"
+export const isEmailVerified = (claims: IdTokenClaims) =>
+  claims.email_verified === true || claims.email_verified === "true";
@@ -0,0 +1,113 @@
+import { PaginatedData } from "../types/shared.js";
+
+/**
+ * Keyset (cursor) pagination over (sort field, id). Unlike skip/offset it
+ * stays fast on deep pages and never skips or repeats rows when new ones
+ * arrive; id breaks ties between rows with the same sort value. Cursors are
+ * opaque to clients: they only send back the `nextCursor` they were given.
+ */
+
+export type SortDirection = "asc" | "desc";
+type SortValue = Date | number | string;
+
+export interface CursorSort<F extends string = string> {
+  field: F;
+  direction: SortDirection;
+}
+
+export interface CursorPosition {
+  value: SortValue;
+  id: string;
+}
+
+export const encodeCursor = (value: SortValue, id: string) =>
+  Buffer.from(
+    JSON.stringify(value instanceof Date ? { d: value.toISOString(), id } : { v: value, id })
+  ).toString("base64url");
+
+// Null for anything that is not a cursor this module issued
+export const decodeCursor = (cursor: string): CursorPosition | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof parsed?.id !== "string") {
+      return null;
+    }
+    if (typeof parsed.d === "string") {
+      const date = new Date(parsed.d);
+      return isNaN(date.getTime()) ? null : { value: date, id: parsed.id };
+    }
+    if (typeof parsed.v === "number" || typeof parsed.v === "string") {
+      return { value: parsed.v, id: parsed.id };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+};
+
+// Rows strictly after `after` in `sort` order
+export const cursorWhere = ({ field, direction }: CursorSort, after: CursorPosition) => {
+  const beyond = direction === "desc" ? "lt" : "gt";
+  return {
+    OR: [
+      { [field]: { [beyond]: after.value } },
+      { [field]: after.value, id: { [beyond]: after.id } },
+    ],
+  };
+};
+
+export const cursorOrderBy = ({ field, direction }: CursorSort) => [
+  { [field]: direction },
+  { id: direction },
+];
+
+/**
+ * Trim a query that fetched `limit + 1` rows to one page. The extra row
+ * only tells whether another page exists; `nextCursor` points after the
+ * last row kept, whether this page was found by cursor or by page number.
+ */
+export const takePage = <T extends { id: string }>(
+  rows: T[],
+  limit: number,
+  sort?: CursorSort<Extract<keyof T, string>> | null
+) => {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  const hasMore = rows.length > limit;
+  return {
+    items,
+    hasMore,
+    nextCursor:
+      hasMore && sort && last ? encodeCursor(last[sort.field] as SortValue, last.id) : null,
+  };
+};
+
+// The PaginatedData for a page from takePage; `page` is only given when
+// the request paged by number
+export const cursorPaginate = <T>(
+  { items, hasMore, nextCursor }: { items: T[]; hasMore: boolean; nextCursor: string | null },
+  total: number,
+  limit: number,
+  page?: number
+): PaginatedData<T> => ({
+  items,
+  total,
+  ...(page !== undefined && { page }),
+  limit,
+  hasMore,
+  nextCursor,
+});
+
+// Page-number paging where the total is already counted
+export const paginate = <T>(
+  items: T[],
+  total: number,
+  page: number,
+  limit: number
+): PaginatedData<T> => ({
+  items,
+  total,
+  page,
+  limit,
+  hasMore: total > page * limit,
+});
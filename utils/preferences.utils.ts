@@ -0,0 +1,196 @@
+import { z } from "zod";
+import { NotificationType } from "../types/enums.js";
+
+// Bump when the stored shape changes and add a step to `migrations`
+export const PREFERENCES_VERSION = 2;
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const channelSchema = z
+  .object({
+    email: z.boolean(),
+    push: z.boolean(),
+    sms: z.boolean(),
+  })
+  .strict();
+
+const notificationsSchema = z
+  .object(
+    Object.fromEntries(
+      Object.values(NotificationType).map((type) => [type, channelSchema]),
+    ) as Record<NotificationType, typeof channelSchema>,
+  )
+  .strict();
+
+export const userPreferencesSchema = z
+  .object({
+    version: z.literal(PREFERENCES_VERSION),
+    language: z
+      .string()
+      .regex(/^[a-z]{2}(-[A-Z]{2})?$/, "Expected a language code like en or ar-SA"),
+    currency: z.string().regex(/^[A-Z]{3}$/, "Expected an ISO 4217 code like USD"),
+    timezone: z.string().refine(isValidTimeZone, "Unknown time zone"),
+    theme: z.enum(["light", "dark"]),
+    dateFormat: z.enum(["MM/DD/YYYY", "DD/MM/YYYY", "YYYY-MM-DD"]),
+    autoLocalization: z.boolean(),
+    marketingEmails: z.boolean(),
+    // When new listings matching a saved search are announced
+    savedSearchAlerts: z.enum(["instant", "daily", "off"]),
+    notifications: notificationsSchema,
+  })
+  .strict();
+
+export type UserPreferences = z.infer<typeof userPreferencesSchema>;
+
+// Updates may touch any subset of fields, but never the version
+export const userPreferencesPatchSchema = userPreferencesSchema
+  .omit({ version: true })
+  .deepPartial();
+
+export type UserPreferencesPatch = z.infer<typeof userPreferencesPatchSchema>;
+
+const defaultChannels = { email: true, push: true, sms: false };
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  version: PREFERENCES_VERSION,
+  language: "en",
+  currency: "USD",
+  timezone: "UTC",
+  theme: "light",
+  dateFormat: "MM/DD/YYYY",
+  autoLocalization: true,
+  marketingEmails: false,
+  savedSearchAlerts: "daily",
+  notifications: Object.fromEntries(
+    Object.values(NotificationType).map((type) => [type, { ...defaultChannels }]),
+  ) as UserPreferences["notifications"],
+};
+
+type PlainObject = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is PlainObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Objects merge key by key; anything else in `patch` replaces the base value
+export const deepMerge = <T extends PlainObject>(base: T, patch: PlainObject): T => {
+  const result: PlainObject = { ...base };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) {
+      continue;
+    }
+    result[key] =
+      isPlainObject(value) && isPlainObject(result[key])
+        ? deepMerge(result[key] as PlainObject, value)
+        : value;
+  }
+  return result as T;
+};
+
+interface LegacyPreferences {
+  notifications?: {
+    email?: boolean;
+    push?: boolean;
+    sms?: boolean;
+    enabledTypes?: string[];
+    emailNotifications?: {
+      newMessage?: boolean;
+      listingUpdates?: boolean;
+      promotions?: boolean;
+    };
+  };
+}
+
+/**
+ * Upgrade steps keyed by the version they start from. Version 1 is the
+ * unversioned shape with global channel switches and three email toggles;
+ * version 2 has per-type channels.
+ */
+const migrations: Record<number, (preferences: PlainObject) => PlainObject> = {
+  1: (preferences) => {
+    const { notifications: legacy = {} } = preferences as LegacyPreferences;
+    const emailToggles = legacy.emailNotifications ?? {};
+    const enabledTypes = legacy.enabledTypes?.length ? legacy.enabledTypes : null;
+
+    const emailFor = (type: NotificationType) => {
+      if (type === NotificationType.NEW_MESSAGE) {
+        return emailToggles.newMessage ?? true;
+      }
+      if (type === NotificationType.SYSTEM_NOTICE) {
+        return true;
+      }
+      return emailToggles.listingUpdates ?? true;
+    };
+
+    const notifications = Object.fromEntries(
+      Object.values(NotificationType).map((type) => {
+        const enabled = !enabledTypes || enabledTypes.includes(type);
+        return [
+          type,
+          {
+            email: enabled && (legacy.email ?? true) && emailFor(type),
+            push: enabled && (legacy.push ?? true),
+            sms: enabled && (legacy.sms ?? false),
+          },
+        ];
+      }),
+    );
+
+    return {
+      ...preferences,
+      version: 2,
+      marketingEmails: emailToggles.promotions ?? false,
+      notifications,
+    };
+  },
+};
+
+/**
+ * Turn whatever is stored in `User.preferences` into a complete, valid
+ * preferences object: run pending migrations, fill in defaults (including
+ * notification types added since the user last saved), and drop any
+ * top-level field that still fails validation.
+ */
+export const migratePreferences = (stored: unknown): UserPreferences => {
+  let preferences: PlainObject = isPlainObject(stored) ? { ...stored } : {};
+  let version = typeof preferences.version === "number" ? preferences.version : 1;
+
+  while (version < PREFERENCES_VERSION && migrations[version]) {
+    preferences = migrations[version](preferences);
+    version++;
+  }
+
+  const merged = deepMerge(DEFAULT_PREFERENCES, {
+    ...preferences,
+    version: PREFERENCES_VERSION,
+  });
+  const shape = userPreferencesSchema.shape;
+
+  return Object.fromEntries(
+    Object.entries(DEFAULT_PREFERENCES).map(([key, fallback]) => {
+      const field = shape[key as keyof typeof shape];
+      const parsed = field.safeParse(merged[key as keyof UserPreferences]);
+      return [key, parsed.success ? parsed.data : fallback];
+    }),
+  ) as UserPreferences;
+};
+
+export const needsMigration = (stored: unknown) =>
+  !isPlainObject(stored) || stored.version !== PREFERENCES_VERSION;
+
+// Flatten zod issues into body paths the client can point at
+export const formatPreferenceIssues = (error: z.ZodError, prefix = "preferences") =>
+  error.issues.flatMap((issue) => {
+    const keys =
+      issue.code === "unrecognized_keys" ? issue.keys.map((key) => [...issue.path, key]) : [issue.path];
+    return keys.map((path) => ({
+      path: [prefix, ...path].join("."),
+      message: issue.code === "unrecognized_keys" ? "Unknown setting" : issue.message,
+    }));
+  });
@@ -0,0 +1,297 @@
+import crypto from "crypto";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { Request } from "express";
+import prisma from "../src/lib/prismaClient.js";
+import { env } from "../config/env.js";
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface AccessTokenPayload {
+  id: string;
+  sid: string;
+}
+
+const ACCESS_TOKEN_EXPIRY: SignOptions["expiresIn"] = "15m";
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export type RefreshTokenErrorCode =
+  | "INVALID_TOKEN"
+  | "TOKEN_EXPIRED"
+  | "TOKEN_REUSED";
+
+export class RefreshTokenError extends Error {
+  code: RefreshTokenErrorCode;
+
+  constructor(code: RefreshTokenErrorCode, message: string) {
+    super(message);
+    this.name = "RefreshTokenError";
+    this.code = code;
+  }
+}
+
+// Refresh tokens are opaque random strings; only their hash is persisted
+export const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+export const generateOpaqueToken = (bytes = 32): string =>
+  crypto.randomBytes(bytes).toString("base64url");
+
+const generateRefreshToken = (): string => generateOpaqueToken(48);
+
+const signAccessToken = (userId: string, sessionId: string): string => {
+  const jwtSecret = env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error("JWT_SECRET is not configured");
+  }
+
+  const payload: AccessTokenPayload = { id: userId, sid: sessionId };
+  return jwt.sign(payload, jwtSecret, { expiresIn: ACCESS_TOKEN_EXPIRY });
+};
+
+// Short-lived signed tokens for one specific flow (never accepted as access tokens)
+export type TokenPurpose = "email-verification";
+
+export const signPurposeToken = (
+  purpose: TokenPurpose,
+  payload: Record<string, unknown>,
+  expiresIn: SignOptions["expiresIn"],
+): string => {
+  const jwtSecret = env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error("JWT_SECRET is not configured");
+  }
+
+  return jwt.sign({ ...payload, purpose }, jwtSecret, { expiresIn });
+};
+
+/**
+ * Verify a purpose token; throws a jsonwebtoken error when the token is
+ * invalid, expired or was issued for another purpose.
+ */
+export const verifyPurposeToken = <T extends object>(
+  purpose: TokenPurpose,
+  token: string,
+): T => {
+  const jwtSecret = env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error("JWT_SECRET is not configured");
+  }
+
+  const decoded = jwt.verify(token, jwtSecret) as T & { purpose?: string };
+  if (decoded.purpose !== purpose) {
+    throw new jwt.JsonWebTokenError("Token issued for a different purpose");
+  }
+  return decoded;
+};
+
+export const getSessionMetadata = (req: Request): SessionMetadata => ({
+  userAgent: req.get("user-agent")?.slice(0, 512),
+  ipAddress: req.ip,
+});
+
+/**
+ * Start a new session for the user and issue its first token pair.
+ */
+export const generateTokens = async (
+  userId: string,
+  metadata: SessionMetadata = {},
+): Promise<AuthTokens> => {
+  const refreshToken = generateRefreshToken();
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
+
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      userAgent: metadata.userAgent,
+      ipAddress: metadata.ipAddress,
+      expiresAt,
+      refreshTokens: {
+        create: { tokenHash: hashToken(refreshToken), expiresAt },
+      },
+    },
+  });
+
+  return {
+    accessToken: signAccessToken(userId, session.id),
+    refreshToken,
+  };
+};
+
+/**
+ * Exchange a refresh token for a new pair. Every token can be used once;
+ * presenting one that was already rotated means it leaked, so the whole
+ * session (token family) is revoked.
+ */
+export const rotateRefreshToken = async (
+  refreshToken: string,
+): Promise<{ userId: string; tokens: AuthTokens }> => {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { session: true },
+  });
+
+  if (!stored || stored.session.revokedAt) {
+    throw new RefreshTokenError("INVALID_TOKEN", "Invalid refresh token");
+  }
+
+  if (stored.rotatedAt) {
+    await revokeSession(stored.sessionId, "TOKEN_REUSE");
+    throw new RefreshTokenError(
+      "TOKEN_REUSED",
+      "Refresh token has already been used",
+    );
+  }
+
+  if (stored.expiresAt <= new Date()) {
+    throw new RefreshTokenError("TOKEN_EXPIRED", "Refresh token has expired");
+  }
+
+  const nextToken = generateRefreshToken();
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
+
+  const rotated = await prisma.$transaction(async (tx) => {
+    // Claim the token atomically so two concurrent refreshes cannot both win
+    const claimed = await tx.refreshToken.updateMany({
+      where: { id: stored.id, rotatedAt: null },
+      data: { rotatedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    await tx.refreshToken.create({
+      data: {
+        tokenHash: hashToken(nextToken),
+        sessionId: stored.sessionId,
+        expiresAt,
+      },
+    });
+    await tx.session.update({
+      where: { id: stored.sessionId },
+      data: { expiresAt, lastSeenAt: new Date() },
+    });
+    return true;
+  });
+
+  if (!rotated) {
+    await revokeSession(stored.sessionId, "TOKEN_REUSE");
+    throw new RefreshTokenError(
+      "TOKEN_REUSED",
+      "Refresh token has already been used",
+    );
+  }
+
+  return {
+    userId: stored.session.userId,
+    tokens: {
+      accessToken: signAccessToken(stored.session.userId, stored.sessionId),
+      refreshToken: nextToken,
+    },
+  };
+};
+
+/**
+ * Look up the session a refresh token belongs to, if any.
+ */
+export const findSessionIdByRefreshToken = async (
+  refreshToken: string,
+): Promise<string | null> => {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    select: { sessionId: true },
+  });
+  return stored?.sessionId ?? null;
+};
+
+export const revokeSession = async (sessionId: string, reason: string) => {
+  return prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+};
+
+export const revokeAllSessions = async (userId: string, reason: string) => {
+  return prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+};
+
+const TWO_FACTOR_CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const TWO_FACTOR_CHALLENGE_ATTEMPTS = 5;
+
+/**
+ * Proof that the password step of login succeeded, exchanged at /2fa/verify.
+ * Like refresh tokens it is opaque and only its hash is stored; the first
+ * correct code spends it and it stops working after a few wrong ones.
+ */
+export const createTwoFactorChallenge = async (userId: string): Promise<string> => {
+  const token = generateOpaqueToken();
+
+  await prisma.$transaction([
+    prisma.twoFactorChallenge.deleteMany({
+      where: {
+        userId,
+        OR: [{ usedAt: { not: null } }, { expiresAt: { lte: new Date() } }],
+      },
+    }),
+    prisma.twoFactorChallenge.create({
+      data: {
+        userId,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + TWO_FACTOR_CHALLENGE_TTL_MS),
+      },
+    }),
+  ]);
+
+  return token;
+};
+
+/**
+ * Spend one code attempt on a challenge. Returns the user it was issued to,
+ * or null when it is unknown, used, expired or out of attempts. The attempt
+ * is counted atomically so parallel guesses cannot exceed the limit.
+ */
+export const claimTwoFactorAttempt = async (
+  token: string,
+): Promise<string | null> => {
+  const tokenHash = hashToken(token);
+
+  const claimed = await prisma.twoFactorChallenge.updateMany({
+    where: {
+      tokenHash,
+      usedAt: null,
+      expiresAt: { gt: new Date() },
+      attempts: { lt: TWO_FACTOR_CHALLENGE_ATTEMPTS },
+    },
+    data: { attempts: { increment: 1 } },
+  });
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  const challenge = await prisma.twoFactorChallenge.findUnique({
+    where: { tokenHash },
+    select: { userId: true },
+  });
+  return challenge?.userId ?? null;
+};
+
+// Mark the challenge used after a correct code; false if it already was
+export const completeTwoFactorChallenge = async (
+  token: string,
+): Promise<boolean> => {
+  const completed = await prisma.twoFactorChallenge.updateMany({
+    where: { tokenHash: hashToken(token), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return completed.count > 0;
+};
@@ -0,0 +1,61 @@
+import { User } from "@prisma/client";
+
+// Columns that never leave the server, not even to the account owner
+const PRIVATE_USER_FIELDS = [
+  "password",
+  "twoFactorSecret",
+  "twoFactorLastUsedStep",
+  "failedLoginAttempts",
+  "lockedUntil",
+] as const;
+
+type PrivateUserField = (typeof PRIVATE_USER_FIELDS)[number];
+
+// The signed-in user's own view of their account
+export const serializeOwnUser = <T extends Partial<User>>(
+  user: T,
+): Omit<T, PrivateUserField> => {
+  const data = { ...user };
+  for (const field of PRIVATE_USER_FIELDS) {
+    delete data[field];
+  }
+  return data;
+};
+
+export interface PublicProfileStats {
+  activeListingCount: number;
+  responseRate: number | null;
+}
+
+export interface PublicProfile extends PublicProfileStats {
+  username: string;
+  profilePicture: string | null;
+  bio: string | null;
+  location: string | null;
+  city: string | null;
+  region: string | null;
+  country: string | null;
+  memberSince: Date;
+}
+
+// What anyone may see about a seller. Built field by field so new User
+// columns stay private until they are added here on purpose.
+export const serializePublicProfile = (
+  user: Pick<
+    User,
+    "username" | "profilePicture" | "bio" | "location" | "city" | "region" | "country" | "createdAt"
+  >,
+  stats: PublicProfileStats,
+): PublicProfile => ({
+  username: user.username,
+  profilePicture: user.profilePicture,
+  bio: user.bio,
+  location: user.location,
+  // Coordinates stay private; the city is enough to judge distance
+  city: user.city,
+  region: user.region,
+  country: user.country,
+  memberSince: user.createdAt,
+  activeListingCount: stats.activeListingCount,
+  responseRate: stats.responseRate,
+});
@@ -0,0 +1,125 @@
+import crypto from "crypto";
+import { PrismaClient } from "@prisma/client";
+import prisma from "../src/lib/prismaClient.js";
+
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 30;
+export const USERNAME_CHANGE_COOLDOWN_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Lowercase letters, digits, dots and underscores; starts with a letter and
+// never has two separators in a row or ends with one.
+const USERNAME_PATTERN = /^[a-z](?:[a-z0-9]|[._](?=[a-z0-9]))*$/;
+
+// Names that collide with routes or could be used to impersonate staff
+const RESERVED_USERNAMES = new Set([
+  "about",
+  "account",
+  "admin",
+  "administrator",
+  "api",
+  "auth",
+  "help",
+  "listings",
+  "login",
+  "logout",
+  "me",
+  "messages",
+  "moderator",
+  "notifications",
+  "profile",
+  "register",
+  "root",
+  "settings",
+  "signup",
+  "staff",
+  "support",
+  "system",
+  "tijara",
+  "username-availability",
+]);
+
+export const normalizeUsername = (username: string) =>
+  username.trim().toLowerCase();
+
+// Returns why a username cannot be used, or null when the format is fine
+export const getUsernameProblem = (username: string): string | null => {
+  if (
+    username.length < USERNAME_MIN_LENGTH ||
+    username.length > USERNAME_MAX_LENGTH
+  ) {
+    return `Username must be between ${USERNAME_MIN_LENGTH} and ${USERNAME_MAX_LENGTH} characters`;
+  }
+  if (!USERNAME_PATTERN.test(username)) {
+    return "Username must start with a letter and contain only letters, numbers, single dots or underscores";
+  }
+  if (RESERVED_USERNAMES.has(username)) {
+    return "This username is reserved";
+  }
+  return null;
+};
+
+export const isUsernameAvailable = async (
+  username: string,
+  excludeUserId?: string,
+) => {
+  const existing = await prisma.user.findUnique({
+    where: { username },
+    select: { id: true },
+  });
+  return !existing || existing.id === excludeUserId;
+};
+
+// Turn an email prefix or a rejected username into a valid base name
+const toUsernameBase = (seed: string) => {
+  const base = normalizeUsername(seed)
+    .replace(/[^a-z0-9._]/g, "")
+    .replace(/[._]{2,}/g, "_")
+    .replace(/^[^a-z]+/, "")
+    .slice(0, USERNAME_MAX_LENGTH - 5)
+    .replace(/[._]+$/, "");
+
+  return base.length >= USERNAME_MIN_LENGTH && !RESERVED_USERNAMES.has(base)
+    ? base
+    : `user${base}`.slice(0, USERNAME_MAX_LENGTH - 5);
+};
+
+/**
+ * Suggest usernames that are free right now, starting with the seed itself
+ * and falling back to numbered variants. Availability is checked in one
+ * query; a suggestion can still be taken before it is used.
+ */
+export const suggestUsernames = async (
+  seed: string,
+  count = 3,
+  db: PrismaClient = prisma,
+) => {
+  const base = toUsernameBase(seed);
+  const candidates = new Set<string>([base]);
+  while (candidates.size < count * 4) {
+    candidates.add(`${base}${crypto.randomInt(10, 10000)}`);
+  }
+
+  const taken = await db.user.findMany({
+    where: { username: { in: [...candidates] } },
+    select: { username: true },
+  });
+  const takenNames = new Set(taken.map((user) => user.username));
+
+  return [...candidates]
+    .filter((candidate) => !takenNames.has(candidate))
+    .slice(0, count);
+};
+
+// Pick a free username for accounts created without one
+export const generateAvailableUsername = async (
+  seed: string,
+  db: PrismaClient = prisma,
+) => {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const [suggestion] = await suggestUsernames(seed, 1, db);
+    if (suggestion) {
+      return suggestion;
+    }
+  }
+  return `${toUsernameBase(seed)}${crypto.randomBytes(3).toString("hex")}`;
+};